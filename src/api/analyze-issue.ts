@@ -1,5 +1,6 @@
 import * as core from '@actions/core';
 import type { AnalyzeIssueResponse, LinkedIssue } from '../types';
+import { fetchWithRetry, DEFAULT_RETRY, type RetryOptions } from './retry';
 
 interface AnalyzeIssueRequest {
   issueTitle: string;
@@ -14,13 +15,15 @@ interface AnalyzeIssueRequest {
  * Call the Runhuman API to analyze a GitHub issue
  * @param presetTestUrl Optional preset URL to use as base - AI will use/enhance this
  * @param githubRepo Optional GitHub repo (owner/repo format) for context
+ * @param retry Retry configuration for transient failures
  */
 export async function analyzeIssue(
   apiKey: string,
   apiUrl: string,
   issue: LinkedIssue,
   presetTestUrl?: string,
-  githubRepo?: string
+  githubRepo?: string,
+  retry: RetryOptions = DEFAULT_RETRY
 ): Promise<AnalyzeIssueResponse> {
   const endpoint = `${apiUrl}/api/analyze-issue`;
 
@@ -40,16 +43,21 @@ export async function analyzeIssue(
     githubRepo,
   };
 
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'User-Agent': 'runhuman-issue-tester-action/1.0.0',
+  const response = await fetchWithRetry(
+    endpoint,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'runhuman-issue-tester-action/1.0.0',
+      },
+      body: JSON.stringify(requestBody),
     },
-    body: JSON.stringify(requestBody),
-    signal: AbortSignal.timeout(60000), // 1 minute timeout for analysis
-  });
+    retry,
+    `Analyze issue #${issue.number}`,
+    60000 // 1 minute timeout per attempt
+  );
 
   if (!response.ok) {
     const errorText = await response.text();
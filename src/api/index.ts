@@ -1,2 +1,10 @@
 export { analyzeIssue } from './analyze-issue';
-export { runQATest } from './run-test';
+export {
+  runQATest,
+  startQATest,
+  waitForQATestResult,
+  checkQATestResult,
+  getQATestStatus,
+  cancelQATest,
+  isFinishedStatus,
+} from './run-test';
@@ -0,0 +1,135 @@
+import * as core from '@actions/core';
+
+/**
+ * Retry configuration for Runhuman API calls
+ */
+export interface RetryOptions {
+  /** Total number of attempts, including the first (1 disables retries) */
+  maxAttempts: number;
+  /** Base delay for exponential backoff, in ms */
+  baseDelayMs?: number;
+  /** Ceiling for a single backoff delay (also caps Retry-After), in ms */
+  maxDelayMs?: number;
+  /**
+   * Whether repeating the request is harmless (default true). Requests that create something are only retried
+   * when they certainly didn't reach the server: connection failures, 429 and 503.
+   */
+  idempotent?: boolean;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60000;
+
+// Network errors raised before a request was sent (after any of these, nothing reached the server)
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+export const DEFAULT_RETRY: RetryOptions = { maxAttempts: DEFAULT_MAX_ATTEMPTS };
+
+/**
+ * Fetch with retries for network errors, 429 (honoring Retry-After) and 5xx responses
+ * (only failures before the request reached the server when it isn't idempotent).
+ * Other responses are returned as-is; the last failure is returned (or thrown) once attempts run out.
+ * @param description Short name of the call for debug logs
+ * @param timeoutMs Optional per-attempt timeout
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  retry: RetryOptions,
+  description: string,
+  timeoutMs?: number
+): Promise<Response> {
+  const maxAttempts = Math.max(1, retry.maxAttempts);
+  const idempotent = retry.idempotent ?? true;
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        signal: timeoutMs ? AbortSignal.timeout(timeoutMs) : init.signal,
+      });
+    } catch (error) {
+      if (attempt >= maxAttempts || (!idempotent && !isConnectionError(error))) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt, retry);
+      core.debug(
+        `${description}: attempt ${attempt}/${maxAttempts} failed with network error ` +
+          `(${error instanceof Error ? error.message : error}), retrying in ${delay}ms`
+      );
+      await sleep(delay);
+      continue;
+    }
+
+    if (!isRetryableStatus(response.status, idempotent) || attempt >= maxAttempts) {
+      return response;
+    }
+
+    const retryAfter = response.status === 429 ? parseRetryAfter(response.headers.get('retry-after')) : null;
+    const delay =
+      retryAfter !== null ? Math.min(retryAfter, retry.maxDelayMs ?? DEFAULT_MAX_DELAY_MS) : backoffDelay(attempt, retry);
+    core.debug(
+      `${description}: attempt ${attempt}/${maxAttempts} got HTTP ${response.status}, retrying in ${delay}ms` +
+        (retryAfter !== null ? ' (Retry-After)' : '')
+    );
+
+    // Drain the body so the connection can be reused
+    await response.text().catch(() => undefined);
+    await sleep(delay);
+  }
+}
+
+/**
+ * Whether an HTTP status is worth retrying (for requests that aren't idempotent, only statuses
+ * returned before the request was processed)
+ */
+function isRetryableStatus(status: number, idempotent: boolean): boolean {
+  if (!idempotent) return status === 429 || status === 503;
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Whether a fetch error happened before the request was sent (fetch wraps the socket error as its cause)
+ */
+function isConnectionError(error: unknown): boolean {
+  const cause = error instanceof Error ? (error.cause as { code?: unknown } | undefined) : undefined;
+  return typeof cause?.code === 'string' && CONNECTION_ERROR_CODES.includes(cause.code);
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of base * 2^(attempt - 1)
+ */
+function backoffDelay(attempt: number, retry: RetryOptions): number {
+  const base = retry.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const ceiling = Math.min(base * 2 ** (attempt - 1), retry.maxDelayMs ?? DEFAULT_MAX_DELAY_MS);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into a delay in ms
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Sleep for a given duration
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
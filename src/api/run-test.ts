@@ -1,4 +1,5 @@
 import * as core from '@actions/core';
+import { fetchWithRetry, DEFAULT_RETRY, type RetryOptions } from './retry';
 import type { QATestResponse, AnalyzeIssueResponse, LinkedIssue, PlaywrightData, PRContext, PRComment } from '../types';
 
 interface CreateJobRequest {
@@ -37,9 +38,47 @@ interface JobStatusResponse {
 // Terminal states that indicate the job is done
 const TERMINAL_STATES = ['completed', 'error', 'abandoned', 'incomplete'];
 
-// Polling configuration
-const POLL_INTERVAL_MS = 60000; // 1 minute between polls
-const MAX_POLL_DURATION_MS = 20 * 60 * 1000; // 20 minutes max
+// Default polling configuration
+export const DEFAULT_POLL_INTERVAL_SECONDS = 15;
+export const DEFAULT_POLL_BACKOFF_MULTIPLIER = 1.5;
+export const DEFAULT_POLL_MAX_INTERVAL_SECONDS = 60;
+
+/**
+ * How often to check a job's status and how long to wait for it
+ */
+export interface PollingOptions {
+  /** Delay after the first status check, in ms */
+  initialIntervalMs: number;
+  /** Factor applied to the delay after each check */
+  backoffMultiplier: number;
+  /** Ceiling for the delay between checks, in ms */
+  maxIntervalMs: number;
+  /** Give up waiting after this long, in ms */
+  maxWaitMs: number;
+  /** Target test duration, used to log the expected remaining time, in ms */
+  targetDurationMs: number;
+}
+
+/**
+ * Default maximum wait for a test: twice the target duration plus time for a tester to pick it up,
+ * and never less than 20 minutes
+ */
+export function defaultMaxWaitMinutes(targetDurationMinutes: number): number {
+  return Math.max(20, targetDurationMinutes * 2 + 10);
+}
+
+/**
+ * Build default polling options for a target test duration
+ */
+export function defaultPollingOptions(targetDurationMinutes: number): PollingOptions {
+  return {
+    initialIntervalMs: DEFAULT_POLL_INTERVAL_SECONDS * 1000,
+    backoffMultiplier: DEFAULT_POLL_BACKOFF_MULTIPLIER,
+    maxIntervalMs: DEFAULT_POLL_MAX_INTERVAL_SECONDS * 1000,
+    maxWaitMs: defaultMaxWaitMinutes(targetDurationMinutes) * 60 * 1000,
+    targetDurationMs: targetDurationMinutes * 60 * 1000,
+  };
+}
 
 /**
  * Create a QA test job via the async API
@@ -47,21 +86,28 @@ const MAX_POLL_DURATION_MS = 20 * 60 * 1000; // 20 minutes max
 async function createJob(
   apiKey: string,
   apiUrl: string,
-  request: CreateJobRequest
+  request: CreateJobRequest,
+  retry: RetryOptions
 ): Promise<string> {
   const endpoint = `${apiUrl}/api/jobs`;
 
   core.info(`Creating QA test job for ${request.url}...`);
 
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'User-Agent': 'runhuman-issue-tester-action/1.0.0',
+  const response = await fetchWithRetry(
+    endpoint,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'runhuman-issue-tester-action/1.0.0',
+      },
+      body: JSON.stringify(request),
     },
-    body: JSON.stringify(request),
-  });
+    // A retry after the server may have created the job would create (and bill) a second one
+    { ...retry, idempotent: false },
+    'Create job'
+  );
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -105,19 +151,25 @@ async function createJob(
 async function getJobStatus(
   apiKey: string,
   apiUrl: string,
-  jobId: string
+  jobId: string,
+  retry: RetryOptions
 ): Promise<JobStatusResponse> {
   const endpoint = `${apiUrl}/api/jobs/${jobId}`;
 
   let response: Response;
   try {
-    response = await fetch(endpoint, {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'User-Agent': 'runhuman-issue-tester-action/1.0.0',
+    response = await fetchWithRetry(
+      endpoint,
+      {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'User-Agent': 'runhuman-issue-tester-action/1.0.0',
+        },
       },
-    });
+      retry,
+      `Get job ${jobId} status`
+    );
   } catch (fetchError) {
     // Network-level error (DNS, connection refused, timeout, etc.)
     const errorMessage = fetchError instanceof Error ? fetchError.message : String(fetchError);
@@ -147,41 +199,65 @@ async function getJobStatus(
 }
 
 /**
- * Poll for job completion
+ * Poll for job completion, backing off between checks
+ * @param jobStartedAt When the job was created (epoch ms), for the expected remaining time
  */
 async function pollForCompletion(
   apiKey: string,
   apiUrl: string,
-  jobId: string
+  jobId: string,
+  polling: PollingOptions,
+  jobStartedAt: number,
+  retry: RetryOptions
 ): Promise<JobStatusResponse> {
   const startTime = Date.now();
   let lastStatus = '';
+  let interval = polling.initialIntervalMs;
 
   while (true) {
     const elapsed = Date.now() - startTime;
 
-    if (elapsed > MAX_POLL_DURATION_MS) {
+    if (elapsed > polling.maxWaitMs) {
       throw new Error(
-        `Job ${jobId} did not complete within 20 minutes. ` +
+        `Job ${jobId} did not complete within ${formatDuration(polling.maxWaitMs)}. ` +
           `Last status: ${lastStatus}. The job may still be running - check the Runhuman dashboard.`
       );
     }
 
-    const status = await getJobStatus(apiKey, apiUrl, jobId);
+    const status = await getJobStatus(apiKey, apiUrl, jobId, retry);
     lastStatus = status.status;
 
-    // Log status changes
-    core.info(`Job ${jobId} status: ${status.status} (${Math.round(elapsed / 1000)}s elapsed)`);
-
     if (TERMINAL_STATES.includes(status.status)) {
+      core.info(`Job ${jobId} status: ${status.status} (${formatDuration(elapsed)} elapsed)`);
       return status;
     }
 
+    // Don't sleep past the maximum wait
+    const delay = Math.min(interval, Math.max(0, polling.maxWaitMs - elapsed) + 1000);
+    const remaining = polling.targetDurationMs - (Date.now() - jobStartedAt);
+    const expected =
+      remaining > 0 ? `~${formatDuration(remaining)} expected remaining` : 'running past target duration';
+    core.info(
+      `Job ${jobId} status: ${status.status} (${formatDuration(elapsed)} elapsed, ${expected}, ` +
+        `next check in ${formatDuration(delay)})`
+    );
+
     // Wait before next poll
-    await sleep(POLL_INTERVAL_MS);
+    await sleep(delay);
+    interval = Math.min(interval * polling.backoffMultiplier, polling.maxIntervalMs);
   }
 }
 
+/**
+ * Format a duration in ms as e.g. "4m 05s" or "40s"
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+}
+
 /**
  * Sleep for a given duration
  */
@@ -275,46 +351,159 @@ When validating the test results, consider whether the tester's findings align w
 }
 
 /**
- * Call the Runhuman API to run a QA test (async with polling)
+ * Create a QA test job for an analyzed issue without waiting for it
+ * @returns The Runhuman job ID
  */
-export async function runQATest(
+export async function startQATest(
   apiKey: string,
   apiUrl: string,
   analysis: AnalyzeIssueResponse,
   targetDurationMinutes: number,
   issue: LinkedIssue,
   prContext: PRContext | null,
-  githubRepo?: string
-): Promise<QATestResponse> {
+  githubRepo?: string,
+  retry: RetryOptions = DEFAULT_RETRY
+): Promise<string> {
   if (!analysis.testUrl) {
     throw new Error('No test URL provided in analysis');
   }
 
   core.debug(`Running QA test on ${analysis.testUrl}`);
 
-  // Step 1: Create the job
-  const jobId = await createJob(apiKey, apiUrl, {
-    url: analysis.testUrl,
-    description: analysis.testInstructions,
-    outputSchema: analysis.outputSchema,
-    targetDurationMinutes,
-    additionalValidationInstructions: formatTestingContext(issue, prContext),
-    githubRepo,
-  });
-
-  // Step 2: Poll for completion
-  core.info(`Waiting for job ${jobId} to complete (max 20 minutes)...`);
-  const finalStatus = await pollForCompletion(apiKey, apiUrl, jobId);
-
-  // Step 3: Convert to QATestResponse format
+  return createJob(
+    apiKey,
+    apiUrl,
+    {
+      url: analysis.testUrl,
+      description: analysis.testInstructions,
+      outputSchema: analysis.outputSchema,
+      targetDurationMinutes,
+      additionalValidationInstructions: formatTestingContext(issue, prContext),
+      githubRepo,
+    },
+    retry
+  );
+}
+
+/**
+ * Poll an existing job until it finishes and convert it to a QATestResponse
+ * @param jobStartedAt When the job was created (epoch ms, defaults to now)
+ */
+export async function waitForQATestResult(
+  apiKey: string,
+  apiUrl: string,
+  jobId: string,
+  polling: PollingOptions,
+  jobStartedAt: number = Date.now(),
+  retry: RetryOptions = DEFAULT_RETRY
+): Promise<QATestResponse> {
+  core.info(`Waiting for job ${jobId} to complete (max ${formatDuration(polling.maxWaitMs)})...`);
+  const finalStatus = await pollForCompletion(apiKey, apiUrl, jobId, polling, jobStartedAt, retry);
+
+  return toQATestResponse(finalStatus);
+}
+
+/**
+ * Check a job once without waiting
+ * @returns The test result if the job has finished, or null if it is still running
+ */
+export async function checkQATestResult(
+  apiKey: string,
+  apiUrl: string,
+  jobId: string,
+  retry: RetryOptions = DEFAULT_RETRY
+): Promise<QATestResponse | null> {
+  const status = await getJobStatus(apiKey, apiUrl, jobId, retry);
+
+  if (!TERMINAL_STATES.includes(status.status)) {
+    core.info(`Job ${jobId} status: ${status.status} (not finished yet)`);
+    return null;
+  }
+
+  return toQATestResponse(status);
+}
+
+/**
+ * Get a job's current state without waiting
+ * @returns The Runhuman job status, e.g. pending, in_progress or completed
+ */
+export async function getQATestStatus(
+  apiKey: string,
+  apiUrl: string,
+  jobId: string,
+  retry: RetryOptions = DEFAULT_RETRY
+): Promise<JobStatusResponse['status']> {
+  const status = await getJobStatus(apiKey, apiUrl, jobId, retry);
+  return status.status;
+}
+
+/**
+ * Check whether a job status is final
+ */
+export function isFinishedStatus(status: string): boolean {
+  return TERMINAL_STATES.includes(status);
+}
+
+// Responses meaning the API has no cancel endpoint: the job itself was just found, so a 404 here is the route
+const CANCEL_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+/**
+ * Cancel a job that hasn't finished yet (call only for a job whose status was just read)
+ * @returns False if the Runhuman API doesn't support cancelling jobs
+ */
+export async function cancelQATest(
+  apiKey: string,
+  apiUrl: string,
+  jobId: string,
+  retry: RetryOptions = DEFAULT_RETRY
+): Promise<boolean> {
+  const endpoint = `${apiUrl}/api/jobs/${jobId}/cancel`;
+
+  core.debug(`Cancelling job ${jobId}`);
+
+  const response = await fetchWithRetry(
+    endpoint,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'User-Agent': 'runhuman-issue-tester-action/1.0.0',
+      },
+    },
+    retry,
+    `Cancel job ${jobId}`
+  );
+
+  if (CANCEL_UNSUPPORTED_STATUSES.includes(response.status)) {
+    await response.text().catch(() => undefined);
+    core.warning(`The Runhuman API does not support cancelling jobs (HTTP ${response.status} from ${endpoint})`);
+    return false;
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to cancel job (${response.status}): ${errorText || response.statusText}`);
+  }
+
+  core.info(`Cancelled job ${jobId}`);
+  return true;
+}
+
+/**
+ * Convert a finished job's status to QATestResponse format
+ */
+function toQATestResponse(finalStatus: JobStatusResponse): QATestResponse {
+  const jobId = finalStatus.id;
+
   const response: QATestResponse = {
     status: finalStatus.status,
     result: finalStatus.result,
     error: finalStatus.error || finalStatus.reason,
     costUsd: finalStatus.costUsd,
     testDurationSeconds: finalStatus.testDurationSeconds,
-    jobId: finalStatus.id,
+    jobId,
     testerData: finalStatus.testerData as PlaywrightData | undefined,
+    testerAlias: finalStatus.testerAlias,
   };
 
   if (finalStatus.status === 'completed') {
@@ -333,3 +522,26 @@ export async function runQATest(
 
   return response;
 }
+
+/**
+ * Call the Runhuman API to run a QA test (async with polling)
+ * @param polling Optional polling configuration (defaults derived from the target duration)
+ * @param retry Retry configuration for transient API failures
+ */
+export async function runQATest(
+  apiKey: string,
+  apiUrl: string,
+  analysis: AnalyzeIssueResponse,
+  targetDurationMinutes: number,
+  issue: LinkedIssue,
+  prContext: PRContext | null,
+  githubRepo?: string,
+  polling: PollingOptions = defaultPollingOptions(targetDurationMinutes),
+  retry: RetryOptions = DEFAULT_RETRY
+): Promise<QATestResponse> {
+  // Step 1: Create the job
+  const jobId = await startQATest(apiKey, apiUrl, analysis, targetDurationMinutes, issue, prContext, githubRepo, retry);
+
+  // Step 2: Poll for completion and convert to QATestResponse format
+  return waitForQATestResult(apiKey, apiUrl, jobId, polling, Date.now(), retry);
+}
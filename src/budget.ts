@@ -0,0 +1,54 @@
+/**
+ * Runhuman pricing used for pre-flight estimates (billed per second of testing)
+ */
+export const COST_PER_SECOND_USD = 0.0018;
+
+/**
+ * Estimate the cost of a test from its target duration
+ */
+export function estimateTestCost(targetDurationMinutes: number): number {
+  return targetDurationMinutes * 60 * COST_PER_SECOND_USD;
+}
+
+/**
+ * Tracks spending across concurrently running tests against an optional total limit.
+ * Estimated costs are reserved before a job is created and settled with the actual cost once it finishes.
+ */
+export interface CostBudget {
+  /** Total cost limit in USD (null = unlimited) */
+  readonly limitUsd: number | null;
+  /** Actual cost of finished tests plus reservations for tests still running */
+  committedUsd(): number;
+  /** Whether an additional cost would still fit in the budget */
+  canAfford(amountUsd: number): boolean;
+  /** Reserve an estimated cost; returns false (and reserves nothing) if it does not fit */
+  reserve(amountUsd: number): boolean;
+  /** Replace a reservation with the actual cost of the finished test */
+  settle(reservedUsd: number, actualUsd: number): void;
+}
+
+/**
+ * Create a cost budget with an optional total limit
+ */
+export function createCostBudget(limitUsd: number | null): CostBudget {
+  let committed = 0;
+
+  const canAfford = (amountUsd: number): boolean =>
+    limitUsd === null || committed + amountUsd <= limitUsd;
+
+  return {
+    limitUsd,
+    committedUsd: () => committed,
+    canAfford,
+    reserve(amountUsd) {
+      if (!canAfford(amountUsd)) {
+        return false;
+      }
+      committed += amountUsd;
+      return true;
+    },
+    settle(reservedUsd, actualUsd) {
+      committed += actualUsd - reservedUsd;
+    },
+  };
+}
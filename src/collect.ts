@@ -0,0 +1,274 @@
+import * as core from '@actions/core';
+import { getIssuesWithLabel } from './github/linked-issues';
+import { getPRContext } from './github/pr-context';
+import { removeLabel } from './github/issue-manager';
+import { findJobRecord, recordJob, type JobRecord } from './github/job-records';
+import { formatIssueRef, resultRepository } from './github/issue-ref';
+import { checkQATestResult, startQATest } from './api/run-test';
+import { findApprovalRequest } from './github/approvals';
+import { findDeploymentUrl } from './github/deployments';
+import { completeCheckRun, getPendingCheckResults, mergeCheckResults, updatePendingCheckRun } from './github/check-run';
+import { applyTestResult, checkBudget, shouldRedispatch, processIssue } from './process-issue';
+import { parseIssueConfig } from './issue-config';
+import { resolveIssueSettings } from './repo-config';
+import { isInconclusive, describeInconclusive, toJobAttempt, buildActionResults } from './results';
+import { mapWithConcurrency, createLock, type Lock } from './concurrency';
+import { estimateTestCost, type CostBudget } from './budget';
+import type { AnalyzeIssueResponse, IssueTestResult, JobAttempt, LinkedIssue, ParsedInputs, PRContext } from './types';
+
+/**
+ * Collect results of jobs created by earlier dispatch runs (mode: collect)
+ * @param budget The collect run's budget, shared with the tests it dispatches
+ */
+export async function collectPendingResults(inputs: ParsedInputs, budget: CostBudget): Promise<IssueTestResult[]> {
+  const issues = await getIssuesWithLabel(inputs.githubToken, inputs.pendingLabel);
+
+  if (issues.length === 0) {
+    core.info(`No issues with the "${inputs.pendingLabel}" label, nothing to collect`);
+    return [];
+  }
+
+  core.info(`Checking ${issues.length} issue(s) with pending jobs`);
+
+  const githubLock = createLock();
+  const checkRuns = new Map<number, IssueTestResult[]>();
+  const results = await mapWithConcurrency(issues, inputs.maxConcurrency, (issue) =>
+    collectIssue(issue, inputs, githubLock, budget, checkRuns)
+  );
+
+  await updateDispatchedCheckRuns(inputs, checkRuns);
+  return results;
+}
+
+/**
+ * Bring the Check Runs that dispatch runs left in progress up to date with the collected results,
+ * completing each one once none of its jobs is pending any more (failures are logged)
+ * @param checkRuns Collected results by the check run their job was recorded with
+ */
+async function updateDispatchedCheckRuns(inputs: ParsedInputs, checkRuns: Map<number, IssueTestResult[]>): Promise<void> {
+  for (const [checkRunId, collected] of checkRuns) {
+    try {
+      const stored = await getPendingCheckResults(inputs.githubToken, checkRunId);
+      if (!stored) continue;
+
+      const results = buildActionResults(mergeCheckResults(stored, collected));
+      if (results.pendingJobs.length === 0 || !(await updatePendingCheckRun(inputs.githubToken, checkRunId, results))) {
+        await completeCheckRun(inputs.githubToken, checkRunId, results);
+      }
+    } catch (error) {
+      core.warning(`Failed to update check run ${checkRunId}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * Dispatch the approved tests of issues awaiting approval (GitHub doesn't run workflows on reactions,
+ * so collect runs pick approvals up); their results are collected by a later collect run
+ * @param budget The collect run's budget, shared with the jobs it redispatches
+ */
+export async function dispatchApprovedIssues(inputs: ParsedInputs, budget: CostBudget): Promise<IssueTestResult[]> {
+  const issues = await getIssuesWithLabel(inputs.githubToken, inputs.awaitingApprovalLabel);
+
+  if (issues.length === 0) {
+    core.info(`No issues with the "${inputs.awaitingApprovalLabel}" label, no approvals to check`);
+    return [];
+  }
+
+  core.info(`Checking ${issues.length} issue(s) awaiting approval`);
+
+  const githubLock = createLock();
+  return mapWithConcurrency(issues, inputs.maxConcurrency, async (issue) => {
+    const pending = await findApprovalRequest(inputs.githubToken, issue, null);
+    if (!pending) {
+      core.warning(
+        `Issue ${formatIssueRef(issue)} has the "${inputs.awaitingApprovalLabel}" label but no approval request, removing the label`
+      );
+      await githubLock(() => removeLabel(inputs.githubToken, issue, inputs.awaitingApprovalLabel));
+      return {
+        issueNumber: issue.number,
+        repository: resultRepository(issue),
+        status: 'skipped',
+        passed: false,
+        skipReason: 'No approval request found',
+      };
+    }
+
+    const { request } = pending;
+    const prContext = request.prNumber ? await fetchPRContext(inputs.githubToken, request.prNumber) : null;
+    const deploymentUrl = inputs.testUrl
+      ? null
+      : await findDeploymentUrl(inputs.githubToken, request.commitSha, inputs.environment);
+
+    // Processing finds the approval again for the request's commit and creates the job without waiting for it
+    return processIssue(issue, { ...inputs, mode: 'dispatch' }, {
+      commitSha: request.commitSha,
+      prContext,
+      deploymentUrl,
+      githubLock,
+      budget,
+    });
+  });
+}
+
+/**
+ * Check an issue's dispatched job once; if it has finished, post the result and update the issue
+ * @param checkRuns Receives the result under the check run the job was recorded with, if any
+ */
+async function collectIssue(
+  issue: LinkedIssue,
+  inputs: ParsedInputs,
+  githubLock: Lock,
+  budget: CostBudget,
+  checkRuns: Map<number, IssueTestResult[]>
+): Promise<IssueTestResult> {
+  const result: IssueTestResult = {
+    issueNumber: issue.number,
+    repository: resultRepository(issue),
+    status: 'pending',
+    passed: false,
+  };
+
+  try {
+    const record = await findJobRecord(inputs.githubToken, issue, null);
+
+    if (!record) {
+      core.warning(`Issue ${formatIssueRef(issue)} has the "${inputs.pendingLabel}" label but no recorded job, removing the label`);
+      await githubLock(() => removeLabel(inputs.githubToken, issue, inputs.pendingLabel));
+      result.status = 'skipped';
+      result.skipReason = 'No recorded job found';
+      return result;
+    }
+
+    result.jobId = record.jobId;
+    if (record.checkRunId !== undefined) {
+      checkRuns.set(record.checkRunId, [...(checkRuns.get(record.checkRunId) ?? []), result]);
+    }
+
+    const testResult = await checkQATestResult(inputs.apiKey, inputs.apiUrl, record.jobId, {
+      maxAttempts: inputs.apiMaxAttempts,
+    });
+    if (!testResult) {
+      core.info(`Issue ${formatIssueRef(issue)}: Job ${record.jobId} is still running`);
+      return result;
+    }
+
+    // Records written by dispatch runs carry the analysis; fall back to a placeholder for older ones
+    const analysis: AnalyzeIssueResponse = record.analysis ?? {
+      isTestable: true,
+      testUrl: null,
+      testInstructions: 'Not recorded',
+      outputSchema: {},
+      confidence: 0,
+    };
+
+    result.analysis = analysis;
+    const attempts = [...(record.attempts ?? []), toJobAttempt(record.jobId, testResult)];
+    const prContext = record.prNumber ? await fetchPRContext(inputs.githubToken, record.prNumber) : null;
+
+    // Replace a job no tester finished with a new one if the budget allows; a later collect run picks up its result
+    if (shouldRedispatch(testResult, attempts.length, inputs) && record.analysis?.testUrl) {
+      const jobId = await redispatchJob(issue, inputs, record, record.analysis, attempts, prContext, githubLock, budget);
+      if (jobId) {
+        core.info(
+          `Issue ${formatIssueRef(issue)}: ${describeInconclusive(testResult)}, dispatched attempt ${attempts.length + 1} as job ${jobId}`
+        );
+        result.jobId = jobId;
+        return result;
+      }
+    }
+
+    result.testResult = testResult;
+    if (attempts.length > 1) {
+      result.attempts = attempts;
+    }
+    if (isInconclusive(testResult)) {
+      result.status = 'inconclusive';
+    } else {
+      result.status = 'tested';
+      result.passed = testResult.result?.success ?? false;
+    }
+
+    await githubLock(async () => {
+      await applyTestResult(issue, testResult, analysis, inputs, {
+        commitSha: record.commitSha,
+        prContext,
+        attempts: result.attempts,
+      });
+      await removeLabel(inputs.githubToken, issue, inputs.pendingLabel);
+    });
+
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.warning(`Error collecting results for issue ${formatIssueRef(issue)}: ${errorMessage}`);
+
+    result.status = 'error';
+    result.error = errorMessage;
+    return result;
+  }
+}
+
+/**
+ * Create a new job for the same test and record it on the issue, which keeps its pending label
+ * @param attempts Jobs of the test so far, carried over in the new record
+ * @returns The new job ID, or null if the new job would exceed max-cost-usd or max-total-cost-usd
+ */
+async function redispatchJob(
+  issue: LinkedIssue,
+  inputs: ParsedInputs,
+  record: JobRecord,
+  analysis: AnalyzeIssueResponse,
+  attempts: JobAttempt[],
+  prContext: PRContext | null,
+  githubLock: Lock,
+  budget: CostBudget
+): Promise<string | null> {
+  const { config, body } = parseIssueConfig(issue.body);
+  const targetDurationMinutes =
+    record.targetDurationMinutes ?? config.targetDurationMinutes ?? resolveIssueSettings(issue, inputs).targetDurationMinutes;
+
+  const estimatedCostUsd = estimateTestCost(targetDurationMinutes);
+  const budgetSkipReason = checkBudget(estimatedCostUsd, inputs.maxCostUsd, budget);
+  if (budgetSkipReason || !budget.reserve(estimatedCostUsd)) {
+    core.info(`Issue ${formatIssueRef(issue)}: Not dispatching another attempt, ${budgetSkipReason ?? 'budget exhausted'}`);
+    return null;
+  }
+
+  const jobId = await startQATest(
+    inputs.apiKey,
+    inputs.apiUrl,
+    analysis,
+    targetDurationMinutes,
+    { ...issue, body },
+    prContext,
+    inputs.githubRepo,
+    { maxAttempts: inputs.apiMaxAttempts }
+  );
+
+  await githubLock(() =>
+    recordJob(inputs.githubToken, issue, {
+      jobId,
+      commitSha: record.commitSha,
+      createdAt: new Date().toISOString(),
+      analysis,
+      prNumber: record.prNumber,
+      targetDurationMinutes,
+      attempts,
+      checkRunId: record.checkRunId,
+    })
+  );
+
+  return jobId;
+}
+
+/**
+ * Fetch PR context for a result comment, tolerating failures
+ */
+async function fetchPRContext(githubToken: string, prNumber: number): Promise<PRContext | null> {
+  try {
+    return await getPRContext(githubToken, prNumber);
+  } catch (error) {
+    core.warning(`Failed to fetch PR context: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
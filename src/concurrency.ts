@@ -0,0 +1,43 @@
+/**
+ * Run an async function over a list of items with at most `limit` calls in flight.
+ * Results are returned in the same order as the input items, regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  async function worker(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
+
+/**
+ * A lock that runs critical sections one at a time, in the order they were requested
+ */
+export type Lock = <T>(fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a lock for serializing side effects across concurrent tasks
+ */
+export function createLock(): Lock {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = tail.then(fn);
+    // Keep the chain alive even if this critical section fails
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
@@ -0,0 +1,87 @@
+import { isInconclusive } from './results';
+import type { Consensus, ConsensusRule, QATestResponse, TesterResult } from './types';
+
+/**
+ * Combine the verdicts of several testers; testers whose job ended without a verdict don't vote
+ */
+export function decideConsensus(testResults: QATestResponse[], rule: ConsensusRule): Consensus {
+  const voters = testResults.filter((testResult) => !isInconclusive(testResult));
+  const passed = voters.filter((testResult) => testResult.result?.success).length;
+  const failed = voters.length - passed;
+  const agreed = voters.length > 0 && (passed === 0 || failed === 0);
+
+  let verdict: Consensus['verdict'] = 'inconclusive';
+  if (voters.length > 0) {
+    switch (rule) {
+      case 'majority':
+        verdict = passed > failed ? 'passed' : failed > passed ? 'failed' : 'inconclusive';
+        break;
+      case 'unanimous':
+        verdict = agreed ? (passed > 0 ? 'passed' : 'failed') : 'inconclusive';
+        break;
+      case 'any-fail':
+        verdict = failed > 0 ? 'failed' : 'passed';
+        break;
+    }
+  }
+
+  return { rule, verdict, passed, failed, noVerdict: testResults.length - voters.length, agreed };
+}
+
+/**
+ * Describe a consensus in one sentence, e.g. "Passed by majority rule: 2 passed, 1 failed"
+ */
+export function describeConsensus(consensus: Consensus): string {
+  const counts = [
+    `${consensus.passed} passed`,
+    `${consensus.failed} failed`,
+    consensus.noVerdict > 0 ? `${consensus.noVerdict} without a verdict` : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  if (consensus.verdict === 'inconclusive') {
+    return `${counts} under the ${consensus.rule} rule`;
+  }
+
+  const verdict = consensus.verdict === 'passed' ? 'Passed' : 'Failed';
+  return consensus.agreed && consensus.noVerdict === 0
+    ? `${verdict}: all ${consensus.passed + consensus.failed} testers agreed`
+    : `${verdict} by ${consensus.rule} rule: ${counts}`;
+}
+
+/**
+ * Build the issue's combined test result from its testers' outcomes.
+ * Recordings, screenshots and extracted data come from the first tester whose verdict matches the consensus.
+ */
+export function combineTesterResults(testers: TesterResult[], consensus: Consensus): QATestResponse {
+  const representative =
+    testers.find((tester) => {
+      const { testResult } = tester;
+      if (isInconclusive(testResult)) return consensus.verdict === 'inconclusive';
+      return (testResult.result?.success ? 'passed' : 'failed') === consensus.verdict;
+    }) ?? testers[0];
+  const costUsd = testers
+    .flatMap((tester) => tester.attempts)
+    .reduce((sum, attempt) => sum + (attempt.costUsd ?? 0), 0);
+
+  const combined: QATestResponse = {
+    status: consensus.verdict === 'inconclusive' ? 'no-consensus' : 'completed',
+    costUsd,
+    testDurationSeconds: representative.testResult.testDurationSeconds,
+    testerData: representative.testResult.testerData,
+    jobId: representative.jobId,
+  };
+
+  if (consensus.verdict === 'inconclusive') {
+    combined.error = describeConsensus(consensus);
+  } else {
+    combined.result = {
+      success: consensus.verdict === 'passed',
+      explanation: describeConsensus(consensus),
+      data: representative.testResult.result?.data ?? {},
+    };
+  }
+
+  return combined;
+}
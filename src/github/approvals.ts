@@ -0,0 +1,141 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import type { AnalyzeIssueResponse, IssueRef, PlannedTest } from '../types';
+import { buildMarker, parseMarker } from '../markers';
+import { buildPlanDetails } from '../templates/test-plan';
+import { formatIssueRef } from './issue-ref';
+import { hasWriteAccess } from './permissions';
+import { filterActionComments } from './comment-author';
+
+/**
+ * A proposed test of an auto-detected issue, waiting for a maintainer's +1 reaction before a job is created
+ */
+export interface ApprovalRequest {
+  /** Commit SHA the test was proposed for */
+  commitSha: string;
+  /** ISO timestamp when the request was posted */
+  createdAt: string;
+  /** Analysis shown to the maintainer; an approved test runs exactly this */
+  analysis: AnalyzeIssueResponse;
+  /** Size and estimated cost of the proposed test */
+  plannedTest: PlannedTest;
+  /** PR that fixed the issue, if any */
+  prNumber?: number;
+}
+
+/**
+ * Build the comment asking for approval of a proposed test
+ */
+export function buildApprovalRequestComment(request: ApprovalRequest): string {
+  return `${buildMarker('approval', request)}
+## \u{1F6A6} QA Test Awaiting Approval
+
+This issue looks testable for commit ${request.commitSha.substring(0, 7)}, but tests of auto-detected issues need approval before they cost anything. A maintainer with write access can react with \u{1F44D} to this comment to run the test below.
+
+${buildPlanDetails(request.analysis, request.plannedTest)}
+---
+
+<sub>Powered by [Runhuman](https://runhuman.com) - Human-powered QA testing</sub>
+`;
+}
+
+/**
+ * Parse an approval request from a comment body
+ * @returns The request, or null if the comment has no valid approval marker
+ */
+export function parseApprovalRequest(body: string): ApprovalRequest | null {
+  const data = parseMarker(body, 'approval') as Partial<ApprovalRequest> | null;
+  if (
+    !data ||
+    typeof data.commitSha !== 'string' ||
+    typeof data.analysis !== 'object' ||
+    data.analysis === null ||
+    typeof data.plannedTest !== 'object' ||
+    data.plannedTest === null
+  ) {
+    return null;
+  }
+
+  return {
+    commitSha: data.commitSha,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    analysis: data.analysis,
+    plannedTest: data.plannedTest,
+    prNumber: typeof data.prNumber === 'number' ? data.prNumber : undefined,
+  };
+}
+
+/**
+ * Find the most recent approval request the action posted on an issue
+ * @param commitSha Only consider requests for this commit (null = any commit)
+ */
+export async function findApprovalRequest(
+  githubToken: string,
+  issue: IssueRef,
+  commitSha: string | null
+): Promise<{ commentId: number; request: ApprovalRequest } | null> {
+  const octokit = github.getOctokit(githubToken);
+
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
+    per_page: 100,
+  });
+
+  // The approved test runs the analysis stored in the marker, so a forged request must not be approvable
+  const ownComments = await filterActionComments(githubToken, comments);
+  for (const comment of [...ownComments].reverse()) {
+    const request = comment.body ? parseApprovalRequest(comment.body) : null;
+    if (request && (commitSha === null || request.commitSha === commitSha)) {
+      return { commentId: comment.id, request };
+    }
+  }
+
+  core.debug(`No approval request found on issue ${formatIssueRef(issue)}`);
+  return null;
+}
+
+/**
+ * Post a new approval request on an issue (a new comment, so +1 reactions on an older proposal don't carry over)
+ */
+export async function postApprovalRequest(githubToken: string, issue: IssueRef, request: ApprovalRequest): Promise<void> {
+  const octokit = github.getOctokit(githubToken);
+
+  await octokit.rest.issues.createComment({
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
+    body: buildApprovalRequestComment(request),
+  });
+
+  core.info(`Posted approval request to issue ${formatIssueRef(issue)}`);
+}
+
+/**
+ * Find who approved a request: the first user with write access who reacted with +1
+ * @returns The approver's login, or null if nobody with write access approved yet
+ */
+export async function findApprover(githubToken: string, issue: IssueRef, commentId: number): Promise<string | null> {
+  const octokit = github.getOctokit(githubToken);
+
+  const reactions = await octokit.paginate(octokit.rest.reactions.listForIssueComment, {
+    owner: issue.owner,
+    repo: issue.repo,
+    comment_id: commentId,
+    content: '+1',
+    per_page: 100,
+  });
+
+  for (const reaction of reactions) {
+    const login = reaction.user?.login;
+    if (login && (await hasWriteAccess(githubToken, login))) {
+      return login;
+    }
+    if (login) {
+      core.debug(`Ignoring \u{1F44D} from @${login} on issue ${formatIssueRef(issue)}: no write access`);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,270 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import type { ActionResults, IssueTestResult } from '../types';
+import { formatResultIssue, describeInconclusive, resultCostUsd } from '../results';
+import { buildMarker, parseMarker } from '../markers';
+
+// GitHub rejects check run output text longer than 65535 characters
+const MAX_OUTPUT_TEXT_LENGTH = 65000;
+
+// Explanations stored for a later collect run are shortened so many issues fit in one check
+const MAX_STORED_EXPLANATION_LENGTH = 500;
+
+type CheckConclusion = 'success' | 'failure' | 'neutral';
+
+/**
+ * Create an in-progress Check Run on the tested commit
+ * @returns The check run ID
+ */
+export async function createCheckRun(
+  githubToken: string,
+  name: string,
+  headSha: string,
+  issueCount: number
+): Promise<number> {
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+
+  core.debug(`Creating check run "${name}" on ${headSha}`);
+
+  const { data } = await octokit.rest.checks.create({
+    owner,
+    repo,
+    name,
+    head_sha: headSha,
+    status: 'in_progress',
+    started_at: new Date().toISOString(),
+    output: {
+      title: `Testing ${issueCount} issue(s)`,
+      summary: 'Human testers are verifying the linked issues. Results will appear here when testing finishes.',
+    },
+  });
+
+  core.info(`Created check run ${data.id}`);
+  return data.id;
+}
+
+/**
+ * Complete a Check Run with the verdicts of a run
+ */
+export async function completeCheckRun(githubToken: string, checkRunId: number, results: ActionResults): Promise<void> {
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+  const conclusion = getCheckConclusion(results);
+
+  core.debug(`Completing check run ${checkRunId} with conclusion ${conclusion}`);
+
+  await octokit.rest.checks.update({
+    owner,
+    repo,
+    check_run_id: checkRunId,
+    status: 'completed',
+    conclusion,
+    completed_at: new Date().toISOString(),
+    output: buildCheckRunOutput(results),
+  });
+
+  core.info(`Completed check run ${checkRunId}: ${conclusion}`);
+}
+
+/**
+ * Show a dispatch run's results on its Check Run and leave it in progress while jobs are pending.
+ * The results are stored in the output as hidden metadata, so the collect run that picks up the
+ * last pending job can complete the check with every verdict.
+ * @returns False if the results are too large to store (the check is then completed instead)
+ */
+export async function updatePendingCheckRun(githubToken: string, checkRunId: number, results: ActionResults): Promise<boolean> {
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+
+  const output = buildPendingCheckRunOutput(results);
+  if (!output) {
+    core.warning(`Too many results to keep check run ${checkRunId} open for collect runs, completing it now`);
+    return false;
+  }
+
+  core.debug(`Updating check run ${checkRunId}: ${results.pendingJobs.length} job(s) pending`);
+
+  await octokit.rest.checks.update({
+    owner,
+    repo,
+    check_run_id: checkRunId,
+    status: 'in_progress',
+    output,
+  });
+
+  core.info(`Check run ${checkRunId} stays in progress until collect runs have the pending verdicts`);
+  return true;
+}
+
+/**
+ * Read the results a dispatch or collect run stored on a Check Run it left in progress
+ * @returns The stored results, or null if the check is already completed or has none
+ */
+export async function getPendingCheckResults(githubToken: string, checkRunId: number): Promise<IssueTestResult[] | null> {
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+
+  const { data } = await octokit.rest.checks.get({ owner, repo, check_run_id: checkRunId });
+  if (data.status === 'completed') {
+    core.debug(`Check run ${checkRunId} is already completed`);
+    return null;
+  }
+
+  return parsePendingCheckResults(data.output.text ?? '');
+}
+
+/**
+ * Build the output of a check left in progress: the usual output, with the results stored as hidden metadata
+ * @returns The output, or null if the stored results would exceed GitHub's output size limit
+ */
+export function buildPendingCheckRunOutput(results: ActionResults): { title: string; summary: string; text: string } | null {
+  const output = buildCheckRunOutput(results);
+  const marker = buildMarker('check', results.results.map(toStoredResult));
+  if (marker.length > MAX_OUTPUT_TEXT_LENGTH) return null;
+
+  let text = output.text ?? '';
+  if (text.length + marker.length > MAX_OUTPUT_TEXT_LENGTH) {
+    text = `${text.substring(0, MAX_OUTPUT_TEXT_LENGTH - marker.length - 100)}\n\n_Output truncated._`;
+  }
+
+  return { ...output, text: `${text}\n\n${marker}` };
+}
+
+/**
+ * Parse the results stored by buildPendingCheckRunOutput
+ * @returns The results, or null if the text has no valid marker
+ */
+export function parsePendingCheckResults(text: string): IssueTestResult[] | null {
+  const data = parseMarker(text, 'check');
+  if (!Array.isArray(data)) return null;
+
+  return data.filter(
+    (result): result is IssueTestResult => typeof result?.issueNumber === 'number' && typeof result?.status === 'string'
+  );
+}
+
+/**
+ * Replace stored results with newer ones for the same issues
+ */
+export function mergeCheckResults(stored: IssueTestResult[], updated: IssueTestResult[]): IssueTestResult[] {
+  const key = (result: IssueTestResult) => `${result.repository ?? ''}#${result.issueNumber}`;
+  const updates = new Map(updated.map((result) => [key(result), result]));
+
+  return stored.map((result) => updates.get(key(result)) ?? result);
+}
+
+/**
+ * Keep what the check output needs of a result, so results of many issues fit in the hidden metadata
+ */
+function toStoredResult(result: IssueTestResult): IssueTestResult {
+  const { testResult } = result;
+
+  return {
+    issueNumber: result.issueNumber,
+    repository: result.repository,
+    status: result.status,
+    passed: result.passed,
+    jobId: result.jobId,
+    skipReason: result.skipReason,
+    error: result.error,
+    analysis: result.analysis ? { ...result.analysis, testInstructions: '', outputSchema: {} } : undefined,
+    attempts: result.attempts,
+    testResult: testResult && {
+      status: testResult.status,
+      error: testResult.error,
+      costUsd: resultCostUsd(result) || undefined,
+      result: testResult.result && {
+        success: testResult.result.success,
+        explanation: testResult.result.explanation.substring(0, MAX_STORED_EXPLANATION_LENGTH),
+        data: {},
+      },
+      testerData: testResult.testerData && {
+        ...testResult.testerData,
+        consoleMessages: [],
+        networkRequests: [],
+        clicks: [],
+      },
+    },
+  };
+}
+
+/**
+ * Derive the check conclusion: any failed test or system error fails the check (the fix wasn't verified),
+ * an inconclusive test makes it neutral (nothing was shown either way), at least one pass otherwise succeeds,
+ * and runs where nothing was tested are neutral
+ */
+export function getCheckConclusion(results: ActionResults): CheckConclusion {
+  const errors = results.results.filter((r) => r.status === 'error').length;
+
+  if (results.failedIssues.length > 0 || errors > 0) {
+    return 'failure';
+  }
+
+  return results.passedIssues.length > 0 && results.inconclusiveIssues.length === 0 ? 'success' : 'neutral';
+}
+
+/**
+ * Build the check run output: counts in the summary, one section per issue in the text
+ */
+export function buildCheckRunOutput(results: ActionResults): { title: string; summary: string; text?: string } {
+  if (results.results.length === 0) {
+    return { title: 'No issues to test', summary: 'No linked issues were found for this commit.' };
+  }
+
+  const errors = results.results.filter((r) => r.status === 'error').length;
+
+  const counts = [
+    `${results.passedIssues.length} passed`,
+    `${results.failedIssues.length} failed`,
+    errors > 0 ? `${errors} errored` : null,
+    results.inconclusiveIssues.length > 0 ? `${results.inconclusiveIssues.length} inconclusive` : null,
+    results.skippedIssues.length > 0 ? `${results.skippedIssues.length} skipped` : null,
+    results.pendingJobs.length > 0 ? `${results.pendingJobs.length} pending` : null,
+  ].filter(Boolean);
+
+  const summary = `| Tested | Passed | Failed | Inconclusive | Skipped | Pending | Total Cost |
+|--------|--------|--------|--------------|---------|---------|------------|
+| ${results.testedIssues.length} | ${results.passedIssues.length} | ${results.failedIssues.length} | ${results.inconclusiveIssues.length} | ${results.skippedIssues.length} | ${results.pendingJobs.length} | $${results.totalCostUsd.toFixed(4)} |`;
+
+  let text = results.results.map(buildIssueSection).join('\n');
+  if (text.length > MAX_OUTPUT_TEXT_LENGTH) {
+    text = `${text.substring(0, MAX_OUTPUT_TEXT_LENGTH)}\n\n_Output truncated._`;
+  }
+
+  return { title: counts.join(', '), summary, text };
+}
+
+/**
+ * Build the check run section for one issue
+ */
+function buildIssueSection(result: IssueTestResult): string {
+  const issue = formatResultIssue(result);
+
+  switch (result.status) {
+    case 'tested': {
+      const testResult = result.testResult;
+      const costUsd = resultCostUsd(result);
+      const links = [
+        result.analysis?.testUrl ? `[Tested URL](${result.analysis.testUrl})` : null,
+        testResult?.testerData?.videoUrl ? `[Recording](${testResult.testerData.videoUrl})` : null,
+        ...(testResult?.testerData?.screenshots ?? []).map((url, i) => `[Screenshot ${i + 1}](${url})`),
+      ].filter(Boolean);
+
+      return `### ${result.passed ? '\u2705' : '\u274C'} Issue ${issue}: ${result.passed ? 'Passed' : 'Failed'}
+
+> ${testResult?.result?.explanation || 'No explanation provided'}
+
+**Cost:** ${costUsd ? `$${costUsd.toFixed(4)}` : 'N/A'}${links.length > 0 ? ` · ${links.join(' · ')}` : ''}
+`;
+    }
+    case 'inconclusive':
+      return `### \u2753 Issue ${issue}: Inconclusive\n\n${result.testResult ? describeInconclusive(result.testResult) : 'No verdict'}\n`;
+    case 'skipped':
+      return `### \u23ED\uFE0F Issue ${issue}: Skipped\n\n${result.skipReason}\n`;
+    case 'pending':
+      return `### \u23F3 Issue ${issue}: Pending\n\nJob \`${result.jobId}\` has not finished yet.\n`;
+    default:
+      return `### \u26A0\uFE0F Issue ${issue}: Error\n\n${result.error}\n`;
+  }
+}
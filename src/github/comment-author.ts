@@ -0,0 +1,46 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+
+/**
+ * The author of an issue comment, as returned by the REST API
+ */
+interface CommentAuthor {
+  user?: { login: string } | null;
+}
+
+// Account that posts the comments of the workflow's GITHUB_TOKEN
+const GITHUB_ACTIONS_LOGIN = 'github-actions[bot]';
+
+// Login behind each token, looked up once per run (null = an app installation token such as GITHUB_TOKEN)
+const tokenLogins = new Map<string, Promise<string | null>>();
+
+/**
+ * Look up the login of the user a token belongs to
+ * @returns The login, or null for app installation tokens, which can't read the authenticated user
+ */
+function getTokenLogin(githubToken: string): Promise<string | null> {
+  let login = tokenLogins.get(githubToken);
+  if (!login) {
+    const octokit = github.getOctokit(githubToken);
+    login = octokit.rest.users.getAuthenticated().then(
+      ({ data }) => data.login,
+      () => {
+        core.debug(`Token has no authenticated user, trusting comments by ${GITHUB_ACTIONS_LOGIN} only`);
+        return null;
+      }
+    );
+    tokenLogins.set(githubToken, login);
+  }
+  return login;
+}
+
+/**
+ * Keep the comments written by the action itself: by the token's user, or by github-actions[bot] for
+ * GITHUB_TOKEN. Hidden markers are only trusted in these, since anyone who can comment could forge one
+ * (other bots and apps can echo text users wrote).
+ */
+export async function filterActionComments<T extends CommentAuthor>(githubToken: string, comments: T[]): Promise<T[]> {
+  const login = (await getTokenLogin(githubToken)) ?? GITHUB_ACTIONS_LOGIN;
+
+  return comments.filter((comment) => comment.user?.login === login);
+}
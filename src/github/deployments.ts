@@ -0,0 +1,118 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+
+/**
+ * Find the URL of a successful deployment of a commit, e.g. a per-PR preview environment.
+ * A triggering deployment_status event is used directly; otherwise the Deployments API is searched.
+ * @param environment Only consider deployments to this environment (null = deployment_status events only)
+ * @returns The deployment's environment URL, or null if none was found
+ */
+export async function findDeploymentUrl(
+  githubToken: string,
+  commitSha: string,
+  environment: string | null
+): Promise<string | null> {
+  const eventUrl = getDeploymentEventUrl(environment);
+  if (eventUrl) {
+    core.info(`Using URL from deployment_status event: ${eventUrl}`);
+    return eventUrl;
+  }
+
+  if (!environment) {
+    return null;
+  }
+
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+
+  core.debug(`Looking for deployments of ${commitSha} to "${environment}"`);
+
+  try {
+    // Newest first, so a redeploy wins over an older deployment of the same commit
+    const { data: deployments } = await octokit.rest.repos.listDeployments({
+      owner,
+      repo,
+      sha: commitSha,
+      environment,
+      per_page: 100,
+    });
+
+    for (const deployment of deployments) {
+      const { data: statuses } = await octokit.rest.repos.listDeploymentStatuses({
+        owner,
+        repo,
+        deployment_id: deployment.id,
+        per_page: 1,
+      });
+
+      // Only the latest status counts: a deployment that was later marked inactive or failed no longer serves
+      const latest = statuses[0];
+      if (latest?.state === 'success' && latest.environment_url) {
+        core.info(`Found deployment ${deployment.id} to "${environment}": ${latest.environment_url}`);
+        return latest.environment_url;
+      }
+    }
+
+    core.info(`No successful deployment of ${commitSha.substring(0, 7)} to "${environment}" found`);
+    return null;
+  } catch (error) {
+    core.warning(`Error looking up deployments: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+/**
+ * Get the environment URL from a successful deployment_status event
+ * @param environment Only accept events for this environment (null = any environment)
+ */
+export function getDeploymentEventUrl(environment: string | null): string | null {
+  const { payload } = github.context;
+  const status = payload.deployment_status as { state?: string; environment_url?: string } | undefined;
+  const deployment = payload.deployment as { environment?: string } | undefined;
+
+  if (github.context.eventName !== 'deployment_status' || !status || status.state !== 'success') {
+    return null;
+  }
+
+  if (environment && deployment?.environment?.toLowerCase() !== environment.toLowerCase()) {
+    core.debug(`Ignoring deployment_status event for environment "${deployment?.environment}"`);
+    return null;
+  }
+
+  return status.environment_url || null;
+}
+
+/**
+ * Point a suggested test URL at a deployment: the path, query and fragment of the suggestion
+ * (an absolute URL or a bare path) are joined onto the deployment's base URL
+ * @returns The joined URL, or the base URL when there is no usable suggestion
+ */
+export function joinDeploymentUrl(baseUrl: string, suggestedUrl: string | null): string {
+  if (!suggestedUrl) {
+    return baseUrl;
+  }
+
+  let path: string;
+  try {
+    const suggested = new URL(suggestedUrl);
+    path = suggested.pathname + suggested.search + suggested.hash;
+  } catch {
+    // Not an absolute URL - treat it as a path
+    path = suggestedUrl.startsWith('/') ? suggestedUrl : `/${suggestedUrl}`;
+  }
+
+  const base = new URL(baseUrl);
+
+  // The suggestion may already include the deployment's path prefix (e.g. when the AI was given the base URL)
+  const prefix = base.pathname.replace(/\/$/, '');
+  if (prefix && (path === prefix || path.startsWith(`${prefix}/`))) {
+    path = path.substring(prefix.length);
+  }
+
+  if (path === '/' || path === '') {
+    return baseUrl;
+  }
+
+  // Resolve relative to the base so a path prefix on the base URL (e.g. /pr-12/) is kept
+  return new URL(path.replace(/^\//, ''), `${base.origin}${prefix}/`).toString();
+}
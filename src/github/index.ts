@@ -1,6 +1,14 @@
-export { getLinkedIssues, hasLabel } from './linked-issues';
+export { getLinkedIssues, hasLabel, searchIssues } from './linked-issues';
 export { getPRContext } from './pr-context';
-export { postTestResultComment } from './issue-commenter';
+export {
+  postTestResultComment,
+  postPlanPreviewComment,
+  postReviewComment,
+  postIssueComment,
+  findLatestResult,
+} from './issue-commenter';
+export { hasWriteAccess } from './permissions';
+export { addCommentReaction } from './reactions';
 export {
   reopenIssue,
   closeIssue,
@@ -8,3 +16,7 @@ export {
   removeLabel,
   ensureIssueClosed,
 } from './issue-manager';
+export { findJobRecord, findJobRecords, recordJob, parseJobRecord } from './job-records';
+export { formatIssueRef, isInCurrentRepo, issueKey } from './issue-ref';
+export { findApprovalRequest, findApprover, postApprovalRequest, parseApprovalRequest } from './approvals';
+export { findIssueFixer } from './issue-fixer';
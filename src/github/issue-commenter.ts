@@ -1,30 +1,215 @@
 import * as github from '@actions/github';
 import * as core from '@actions/core';
-import type { QATestResponse, AnalyzeIssueResponse } from '../types';
-import { buildTestResultComment } from '../templates/comment-template';
+import type {
+  QATestResponse,
+  AnalyzeIssueResponse,
+  LinkedIssue,
+  PRContext,
+  IssueRef,
+  JobAttempt,
+  TesterResult,
+  Consensus,
+  ResultHistoryEntry,
+} from '../types';
+import { formatIssueRef } from './issue-ref';
+import { filterActionComments } from './comment-author';
+import { parseMarker } from '../markers';
+import {
+  buildTestResultComment,
+  parseResultComment,
+  mergeResultHistory,
+  type ParsedResultComment,
+} from '../templates/comment-template';
+
+/**
+ * Options for posting a test result comment
+ */
+export interface PostCommentOptions {
+  /** Commit SHA that was tested (recorded in the comment's hidden metadata) */
+  commitSha: string;
+  /** Edit the latest earlier result comment in place instead of posting a new one */
+  sticky: boolean;
+  /** User-supplied comment template (null = built-in layout) */
+  template: string | null;
+  /** Tested issue (the comment is posted to its repository), exposed to custom templates */
+  issue: LinkedIssue;
+  /** PR that fixed the issue, exposed to custom templates */
+  prContext: PRContext | null;
+  /** Every job of the test in order, when there was more than one */
+  attempts?: JobAttempt[];
+  /** Each tester's outcome, when several tested the issue */
+  testers?: TesterResult[];
+  /** How the testers' verdicts were combined */
+  consensus?: Consensus;
+}
 
 /**
  * Post a test result comment to a GitHub issue
  */
 export async function postTestResultComment(
   githubToken: string,
-  issueNumber: number,
   testResult: QATestResponse,
-  analysis: AnalyzeIssueResponse
+  analysis: AnalyzeIssueResponse,
+  options: PostCommentOptions
 ): Promise<void> {
   const octokit = github.getOctokit(githubToken);
-  const { owner, repo } = github.context.repo;
+  const { issue } = options;
+  const { owner, repo } = issue;
+
+  // Every earlier verdict on the issue becomes the new comment's history
+  const earlier = await findResultComments(githubToken, issue);
+  const comment = buildTestResultComment(testResult, analysis, {
+    commitSha: options.commitSha,
+    history: mergeResultHistory(earlier.map(({ parsed }) => parsed)),
+    template: options.template,
+    issue,
+    prContext: options.prContext,
+    attempts: options.attempts,
+    testers: options.testers,
+    consensus: options.consensus,
+  });
+
+  const previous = options.sticky ? earlier[earlier.length - 1] : undefined;
+  if (previous) {
+    core.debug(`Updating comment ${previous.commentId} on issue ${formatIssueRef(issue)}`);
 
-  const comment = buildTestResultComment(testResult, analysis);
+    await octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: previous.commentId,
+      body: comment,
+    });
 
-  core.debug(`Posting comment to issue #${issueNumber}`);
+    core.info(`Updated test result comment on issue ${formatIssueRef(issue)}`);
+    return;
+  }
+
+  core.debug(`Posting comment to issue ${formatIssueRef(issue)}`);
 
   await octokit.rest.issues.createComment({
     owner,
     repo,
-    issue_number: issueNumber,
+    issue_number: issue.number,
     body: comment,
   });
 
-  core.info(`Posted test result comment to issue #${issueNumber}`);
+  core.info(`Posted test result comment to issue ${formatIssueRef(issue)}`);
+}
+
+/**
+ * Find the latest verdict the action posted on an issue
+ * @returns The verdict, or null if the issue has no result comment from the action
+ */
+export async function findLatestResult(githubToken: string, issue: IssueRef): Promise<ResultHistoryEntry | null> {
+  const comments = await findResultComments(githubToken, issue);
+  return mergeResultHistory(comments.map(({ parsed }) => parsed))[0] ?? null;
+}
+
+/**
+ * Find the Runhuman result comments the action posted on an issue, oldest first
+ * (a quoted or pasted result comment by someone else can't be edited, and its verdicts can't be trusted)
+ */
+async function findResultComments(
+  githubToken: string,
+  issue: IssueRef
+): Promise<Array<{ commentId: number; parsed: ParsedResultComment }>> {
+  const octokit = github.getOctokit(githubToken);
+
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
+    per_page: 100,
+  });
+
+  const results: Array<{ commentId: number; parsed: ParsedResultComment }> = [];
+  for (const comment of await filterActionComments(githubToken, comments)) {
+    const parsed = comment.body ? parseResultComment(comment.body) : null;
+    if (parsed) {
+      results.push({ commentId: comment.id, parsed });
+    }
+  }
+
+  if (results.length === 0) {
+    core.debug(`No earlier result comment found on issue ${formatIssueRef(issue)}`);
+  }
+  return results;
+}
+
+/**
+ * Post a dry run's test plan on an issue, editing the preview an earlier dry run posted instead of adding another
+ */
+export async function postPlanPreviewComment(githubToken: string, issue: IssueRef, body: string): Promise<void> {
+  await upsertMarkedComment(githubToken, issue, 'preview', body, 'test plan preview');
+}
+
+/**
+ * Ask for approval of a low-confidence analysis on an issue, editing the request an earlier run posted
+ */
+export async function postReviewComment(githubToken: string, issue: IssueRef, body: string): Promise<void> {
+  await upsertMarkedComment(githubToken, issue, 'review', body, 'review request');
+}
+
+/**
+ * Edit the latest comment the action posted with the given marker, or post a new one if there is none
+ * @param description What the comment is, for the log
+ */
+async function upsertMarkedComment(
+  githubToken: string,
+  issue: IssueRef,
+  marker: string,
+  body: string,
+  description: string
+): Promise<void> {
+  const octokit = github.getOctokit(githubToken);
+
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
+    per_page: 100,
+  });
+
+  // Only the action's own comments can be edited with its token
+  const ownComments = await filterActionComments(githubToken, comments);
+  const previous = [...ownComments].reverse().find((comment) => comment.body && parseMarker(comment.body, marker));
+
+  if (previous) {
+    core.debug(`Updating ${description} comment ${previous.id} on issue ${formatIssueRef(issue)}`);
+
+    await octokit.rest.issues.updateComment({
+      owner: issue.owner,
+      repo: issue.repo,
+      comment_id: previous.id,
+      body,
+    });
+
+    core.info(`Updated ${description} on issue ${formatIssueRef(issue)}`);
+    return;
+  }
+
+  await octokit.rest.issues.createComment({
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
+    body,
+  });
+
+  core.info(`Posted ${description} to issue ${formatIssueRef(issue)}`);
+}
+
+/**
+ * Post a plain comment on an issue (e.g. a reply to a /runhuman command)
+ */
+export async function postIssueComment(githubToken: string, issue: IssueRef, body: string): Promise<void> {
+  const octokit = github.getOctokit(githubToken);
+
+  await octokit.rest.issues.createComment({
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
+    body,
+  });
+
+  core.debug(`Posted comment to issue ${formatIssueRef(issue)}`);
 }
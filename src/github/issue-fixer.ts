@@ -0,0 +1,114 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import type { IssueRef } from '../types';
+import { formatIssueRef } from './issue-ref';
+
+/**
+ * Who fixed an issue: the author of the PR or commit that closed it, or else whoever closed it
+ */
+export interface IssueFixer {
+  login: string;
+  /** PR that closed the issue, if it was closed by one */
+  prNumber?: number;
+}
+
+/**
+ * GraphQL query for the latest time an issue was closed, and by what
+ */
+const CLOSED_EVENT_QUERY = `
+  query($owner: String!, $repo: String!, $issueNumber: Int!) {
+    repository(owner: $owner, name: $repo) {
+      issue(number: $issueNumber) {
+        timelineItems(itemTypes: [CLOSED_EVENT], last: 1) {
+          nodes {
+            ... on ClosedEvent {
+              actor {
+                __typename
+                login
+              }
+              closer {
+                __typename
+                ... on PullRequest {
+                  number
+                  author {
+                    __typename
+                    login
+                  }
+                }
+                ... on Commit {
+                  author {
+                    user {
+                      login
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * A user, bot or other account in the GraphQL API
+ */
+interface Actor {
+  __typename: string;
+  login: string;
+}
+
+interface ClosedEventResponse {
+  repository: {
+    issue: {
+      timelineItems: {
+        nodes: Array<{
+          actor: Actor | null;
+          closer:
+            | { __typename: 'PullRequest'; number: number; author: Actor | null }
+            | { __typename: 'Commit'; author: { user: { login: string } | null } | null }
+            | null;
+        }>;
+      };
+    } | null;
+  };
+}
+
+/**
+ * Find who fixed a closed issue
+ * @returns The fixer, or null if the issue was never closed or the closer can't be attributed to a user
+ * (bots, such as the action itself closing an issue after a passing test, are never the fixer)
+ */
+export async function findIssueFixer(githubToken: string, issue: IssueRef): Promise<IssueFixer | null> {
+  const octokit = github.getOctokit(githubToken);
+
+  const result = await octokit.graphql<ClosedEventResponse>(CLOSED_EVENT_QUERY, {
+    owner: issue.owner,
+    repo: issue.repo,
+    issueNumber: issue.number,
+  });
+
+  const [event] = result.repository.issue?.timelineItems.nodes ?? [];
+  if (!event) {
+    core.debug(`Issue ${formatIssueRef(issue)} has no closed event`);
+    return null;
+  }
+
+  const { closer } = event;
+  if (closer?.__typename === 'PullRequest' && closer.author && !isBot(closer.author)) {
+    return { login: closer.author.login, prNumber: closer.number };
+  }
+  if (closer?.__typename === 'Commit' && closer.author?.user) {
+    return { login: closer.author.user.login };
+  }
+
+  return event.actor && !isBot(event.actor) ? { login: event.actor.login } : null;
+}
+
+/**
+ * Whether an account is a bot (GitHub Actions, Dependabot, apps), which shouldn't be mentioned
+ */
+function isBot(actor: Actor): boolean {
+  return actor.__typename === 'Bot';
+}
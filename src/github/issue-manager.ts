@@ -1,89 +1,87 @@
 import * as github from '@actions/github';
 import * as core from '@actions/core';
+import type { IssueRef } from '../types';
+import { formatIssueRef } from './issue-ref';
 
 /**
  * Reopen a closed issue
  */
-export async function reopenIssue(githubToken: string, issueNumber: number): Promise<void> {
+export async function reopenIssue(githubToken: string, issue: IssueRef): Promise<void> {
   const octokit = github.getOctokit(githubToken);
-  const { owner, repo } = github.context.repo;
 
-  core.debug(`Reopening issue #${issueNumber}`);
+  core.debug(`Reopening issue ${formatIssueRef(issue)}`);
 
   await octokit.rest.issues.update({
-    owner,
-    repo,
-    issue_number: issueNumber,
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
     state: 'open',
   });
 
-  core.info(`Reopened issue #${issueNumber}`);
+  core.info(`Reopened issue ${formatIssueRef(issue)}`);
 }
 
 /**
  * Close an open issue
  */
-export async function closeIssue(githubToken: string, issueNumber: number): Promise<void> {
+export async function closeIssue(githubToken: string, issue: IssueRef): Promise<void> {
   const octokit = github.getOctokit(githubToken);
-  const { owner, repo } = github.context.repo;
 
-  core.debug(`Closing issue #${issueNumber}`);
+  core.debug(`Closing issue ${formatIssueRef(issue)}`);
 
   await octokit.rest.issues.update({
-    owner,
-    repo,
-    issue_number: issueNumber,
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
     state: 'closed',
   });
 
-  core.info(`Closed issue #${issueNumber}`);
+  core.info(`Closed issue ${formatIssueRef(issue)}`);
 }
 
 /**
  * Add a label to an issue
  */
-export async function addLabel(githubToken: string, issueNumber: number, label: string): Promise<void> {
+export async function addLabel(githubToken: string, issue: IssueRef, label: string): Promise<void> {
   if (!label) return;
 
   const octokit = github.getOctokit(githubToken);
-  const { owner, repo } = github.context.repo;
 
-  core.debug(`Adding label "${label}" to issue #${issueNumber}`);
+  core.debug(`Adding label "${label}" to issue ${formatIssueRef(issue)}`);
 
   await octokit.rest.issues.addLabels({
-    owner,
-    repo,
-    issue_number: issueNumber,
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
     labels: [label],
   });
 
-  core.info(`Added label "${label}" to issue #${issueNumber}`);
+  core.info(`Added label "${label}" to issue ${formatIssueRef(issue)}`);
 }
 
 /**
  * Remove a label from an issue
  */
-export async function removeLabel(githubToken: string, issueNumber: number, label: string): Promise<void> {
+export async function removeLabel(githubToken: string, issue: IssueRef, label: string): Promise<void> {
   if (!label) return;
 
   const octokit = github.getOctokit(githubToken);
-  const { owner, repo } = github.context.repo;
 
-  core.debug(`Removing label "${label}" from issue #${issueNumber}`);
+  core.debug(`Removing label "${label}" from issue ${formatIssueRef(issue)}`);
 
   try {
     await octokit.rest.issues.removeLabel({
-      owner,
-      repo,
-      issue_number: issueNumber,
+      owner: issue.owner,
+      repo: issue.repo,
+      issue_number: issue.number,
       name: label,
     });
 
-    core.info(`Removed label "${label}" from issue #${issueNumber}`);
+    core.info(`Removed label "${label}" from issue ${formatIssueRef(issue)}`);
   } catch (error) {
     // Label might not exist on the issue - that's okay
     if ((error as { status?: number }).status === 404) {
-      core.debug(`Label "${label}" not found on issue #${issueNumber}, skipping removal`);
+      core.debug(`Label "${label}" not found on issue ${formatIssueRef(issue)}, skipping removal`);
     } else {
       throw error;
     }
@@ -93,20 +91,19 @@ export async function removeLabel(githubToken: string, issueNumber: number, labe
 /**
  * Ensure an issue is closed (close if open)
  */
-export async function ensureIssueClosed(githubToken: string, issueNumber: number): Promise<void> {
+export async function ensureIssueClosed(githubToken: string, issue: IssueRef): Promise<void> {
   const octokit = github.getOctokit(githubToken);
-  const { owner, repo } = github.context.repo;
 
   // Get current issue state
-  const { data: issue } = await octokit.rest.issues.get({
-    owner,
-    repo,
-    issue_number: issueNumber,
+  const { data } = await octokit.rest.issues.get({
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
   });
 
-  if (issue.state === 'open') {
-    await closeIssue(githubToken, issueNumber);
+  if (data.state === 'open') {
+    await closeIssue(githubToken, issue);
   } else {
-    core.debug(`Issue #${issueNumber} is already closed`);
+    core.debug(`Issue ${formatIssueRef(issue)} is already closed`);
   }
 }
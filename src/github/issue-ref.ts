@@ -0,0 +1,31 @@
+import * as github from '@actions/github';
+import type { IssueRef } from '../types';
+
+/**
+ * Check whether an issue lives in the workflow's repository
+ */
+export function isInCurrentRepo(issue: Pick<IssueRef, 'owner' | 'repo'>): boolean {
+  const { owner, repo } = github.context.repo;
+  return issue.owner.toLowerCase() === owner.toLowerCase() && issue.repo.toLowerCase() === repo.toLowerCase();
+}
+
+/**
+ * Format an issue reference for logs and summaries: "#123" in the workflow's repository, "owner/repo#123" elsewhere
+ */
+export function formatIssueRef(issue: IssueRef): string {
+  return isInCurrentRepo(issue) ? `#${issue.number}` : `${issue.owner}/${issue.repo}#${issue.number}`;
+}
+
+/**
+ * Key identifying an issue across repositories (GitHub owner and repo names are case-insensitive)
+ */
+export function issueKey(issue: IssueRef): string {
+  return `${issue.owner}/${issue.repo}#${issue.number}`.toLowerCase();
+}
+
+/**
+ * The "owner/repo" to record on a result, or undefined for issues in the workflow's repository
+ */
+export function resultRepository(issue: IssueRef): string | undefined {
+  return isInCurrentRepo(issue) ? undefined : `${issue.owner}/${issue.repo}`;
+}
@@ -0,0 +1,131 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import type { AnalyzeIssueResponse, IssueRef, JobAttempt } from '../types';
+import { buildMarker, parseMarker } from '../markers';
+import { formatIssueRef } from './issue-ref';
+import { filterActionComments } from './comment-author';
+
+/**
+ * A Runhuman job started for an issue at a specific commit
+ */
+export interface JobRecord {
+  /** Runhuman job ID (QATestResponse.jobId) */
+  jobId: string;
+  /** Commit SHA the job was started for */
+  commitSha: string;
+  /** ISO timestamp when the job was created */
+  createdAt: string;
+  /** Analysis the job was created from (needed to post results from a later run) */
+  analysis?: AnalyzeIssueResponse;
+  /** PR that fixed the issue, if any */
+  prNumber?: number;
+  /** Target test duration the job was created with */
+  targetDurationMinutes?: number;
+  /** Earlier jobs of the same test that ended without a verdict, oldest first */
+  attempts?: JobAttempt[];
+  /** Which of the issue's testers the job belongs to (1-based; absent with a single tester) */
+  tester?: number;
+  /** Check Run a dispatch run left in progress for the job, completed by the collect run that gets the last verdict */
+  checkRunId?: number;
+}
+
+/**
+ * Build the comment recording a started job
+ */
+export function buildJobRecordComment(record: JobRecord): string {
+  return `${buildMarker('job', record)}
+\u{1F9EA} **QA test in progress** for commit ${record.commitSha.substring(0, 7)} (job \`${record.jobId}\`).
+
+Results will be posted here when testing finishes.`;
+}
+
+/**
+ * Parse a job record from a comment body
+ * @returns The record, or null if the comment has no valid job marker
+ */
+export function parseJobRecord(body: string): JobRecord | null {
+  const data = parseMarker(body, 'job') as Partial<JobRecord> | null;
+  if (!data || typeof data.jobId !== 'string' || typeof data.commitSha !== 'string') {
+    return null;
+  }
+
+  return {
+    jobId: data.jobId,
+    commitSha: data.commitSha,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    analysis: typeof data.analysis === 'object' && data.analysis !== null ? data.analysis : undefined,
+    prNumber: typeof data.prNumber === 'number' ? data.prNumber : undefined,
+    targetDurationMinutes: typeof data.targetDurationMinutes === 'number' ? data.targetDurationMinutes : undefined,
+    attempts: Array.isArray(data.attempts)
+      ? data.attempts.filter((a): a is JobAttempt => typeof a?.jobId === 'string' && typeof a?.status === 'string')
+      : undefined,
+    tester: typeof data.tester === 'number' ? data.tester : undefined,
+    checkRunId: typeof data.checkRunId === 'number' ? data.checkRunId : undefined,
+  };
+}
+
+/**
+ * Find the most recent job recorded on an issue
+ * @param commitSha Only consider jobs started for this commit (null = any commit)
+ */
+export async function findJobRecord(
+  githubToken: string,
+  issue: IssueRef,
+  commitSha: string | null
+): Promise<JobRecord | null> {
+  const records = await findJobRecords(githubToken, issue, commitSha);
+  return records[0] ?? null;
+}
+
+/**
+ * Find all jobs the action recorded on an issue, newest first
+ * @param commitSha Only consider jobs started for this commit (null = any commit)
+ */
+export async function findJobRecords(
+  githubToken: string,
+  issue: IssueRef,
+  commitSha: string | null
+): Promise<JobRecord[]> {
+  const octokit = github.getOctokit(githubToken);
+
+  core.debug(`Looking for recorded jobs on issue ${formatIssueRef(issue)}${commitSha ? ` for commit ${commitSha}` : ''}`);
+
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
+    per_page: 100,
+  });
+
+  // Only records the action posted: a forged one could make the run reattach to someone else's job
+  const ownComments = await filterActionComments(githubToken, comments);
+
+  // Newest first, so a re-dispatched job wins over an older one
+  const records: JobRecord[] = [];
+  for (const comment of [...ownComments].reverse()) {
+    const record = comment.body ? parseJobRecord(comment.body) : null;
+    if (record && (commitSha === null || record.commitSha === commitSha)) {
+      records.push(record);
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Record a started job on an issue so later runs can reattach to it
+ */
+export async function recordJob(githubToken: string, issue: IssueRef, record: JobRecord): Promise<void> {
+  const octokit = github.getOctokit(githubToken);
+
+  core.debug(`Recording job ${record.jobId} on issue ${formatIssueRef(issue)}`);
+
+  await octokit.rest.issues.createComment({
+    owner: issue.owner,
+    repo: issue.repo,
+    issue_number: issue.number,
+    body: buildJobRecordComment(record),
+  });
+
+  core.info(`Recorded job ${record.jobId} on issue ${formatIssueRef(issue)}`);
+}
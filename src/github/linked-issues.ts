@@ -1,21 +1,38 @@
 import * as github from '@actions/github';
 import * as core from '@actions/core';
-import type { LinkedIssue } from '../types';
+import type { IssueRef, LinkedIssue } from '../types';
+import { formatIssueRef, isInCurrentRepo, issueKey } from './issue-ref';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
 
 /**
- * GraphQL query to get issues that will be closed by a pull request
+ * GraphQL query to get issues that will be closed by a pull request (one page)
  */
 const LINKED_ISSUES_QUERY = `
-  query($owner: String!, $repo: String!, $prNumber: Int!) {
+  query($owner: String!, $repo: String!, $prNumber: Int!, $cursor: String) {
     repository(owner: $owner, name: $repo) {
       pullRequest(number: $prNumber) {
-        closingIssuesReferences(first: 50) {
+        closingIssuesReferences(first: 50, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
           nodes {
             number
             title
             body
             state
-            labels(first: 20) {
+            repository {
+              name
+              owner {
+                login
+              }
+            }
+            labels(first: 100) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
               nodes {
                 name
               }
@@ -27,24 +44,63 @@ const LINKED_ISSUES_QUERY = `
   }
 `;
 
+/**
+ * GraphQL query to get further pages of an issue's labels
+ */
+const ISSUE_LABELS_QUERY = `
+  query($owner: String!, $repo: String!, $issueNumber: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      issue(number: $issueNumber) {
+        labels(first: 100, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            name
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface LabelConnection {
+  pageInfo: PageInfo;
+  nodes: Array<{ name: string }>;
+}
+
 interface GraphQLResponse {
   repository: {
     pullRequest: {
       closingIssuesReferences: {
+        pageInfo: PageInfo;
         nodes: Array<{
           number: number;
           title: string;
           body: string;
           state: 'OPEN' | 'CLOSED';
-          labels: {
-            nodes: Array<{ name: string }>;
-          };
+          repository: { name: string; owner: { login: string } };
+          labels: LabelConnection;
         }>;
       };
     };
   };
 }
 
+interface IssueLabelsResponse {
+  repository: {
+    issue: {
+      labels: LabelConnection;
+    };
+  };
+}
+
 /**
  * Find the merged PR associated with a commit SHA
  */
@@ -98,27 +154,76 @@ export async function getLinkedIssues(githubToken: string, prNumber?: number): P
 
   core.debug(`Fetching linked issues for PR #${effectivePrNumber} in ${owner}/${repo}`);
 
-  const result = await octokit.graphql<GraphQLResponse>(LINKED_ISSUES_QUERY, {
-    owner,
-    repo,
-    prNumber: effectivePrNumber,
-  });
+  const linkedIssues: LinkedIssue[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const result: GraphQLResponse = await octokit.graphql<GraphQLResponse>(LINKED_ISSUES_QUERY, {
+      owner,
+      repo,
+      prNumber: effectivePrNumber,
+      cursor,
+    });
 
-  const nodes = result.repository.pullRequest.closingIssuesReferences.nodes;
+    const connection = result.repository.pullRequest.closingIssuesReferences;
 
-  const linkedIssues: LinkedIssue[] = nodes.map((node) => ({
-    number: node.number,
-    title: node.title,
-    body: node.body,
-    state: node.state,
-    labels: node.labels.nodes,
-  }));
+    for (const node of connection.nodes) {
+      // Closing references can point at issues in other repositories
+      const issueRepo = { owner: node.repository.owner.login, repo: node.repository.name };
+
+      const labels = [...node.labels.nodes];
+      if (node.labels.pageInfo.hasNextPage) {
+        labels.push(
+          ...(await getRemainingLabels(octokit, { ...issueRepo, number: node.number }, node.labels.pageInfo.endCursor))
+        );
+      }
+
+      linkedIssues.push({
+        ...issueRepo,
+        number: node.number,
+        title: node.title,
+        body: node.body,
+        state: node.state,
+        labels,
+      });
+    }
+
+    cursor = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+  } while (cursor);
 
   core.info(`Found ${linkedIssues.length} linked issues`);
 
   return linkedIssues;
 }
 
+/**
+ * Fetch the labels of an issue that didn't fit in the first page
+ */
+async function getRemainingLabels(
+  octokit: Octokit,
+  issue: IssueRef,
+  cursor: string | null
+): Promise<Array<{ name: string }>> {
+  const labels: Array<{ name: string }> = [];
+
+  core.debug(`Fetching more labels for issue ${formatIssueRef(issue)}`);
+
+  while (cursor) {
+    const result: IssueLabelsResponse = await octokit.graphql<IssueLabelsResponse>(ISSUE_LABELS_QUERY, {
+      owner: issue.owner,
+      repo: issue.repo,
+      issueNumber: issue.number,
+      cursor,
+    });
+
+    const connection = result.repository.issue.labels;
+    labels.push(...connection.nodes);
+    cursor = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+  }
+
+  return labels;
+}
+
 /**
  * Check if an issue has a specific label
  */
@@ -127,19 +232,32 @@ export function hasLabel(issue: LinkedIssue, labelName: string): boolean {
 }
 
 /**
- * Parse issue numbers from a commit message
- * Matches patterns like: Fixes #123, Closes #456, Resolves #789, etc.
- * @param customPattern Optional additional regex pattern (must have capture group for issue number)
+ * Keywords that link a commit to issues: https://docs.github.com/en/issues/tracking-your-work-with-issues/linking-a-pull-request-to-an-issue
+ * followed by "#123", "owner/repo#123" or an issue URL
  */
-export function parseIssueNumbersFromCommitMessage(message: string, customPattern?: string | null): number[] {
-  const issueNumbers = new Set<number>();
+const CLOSING_REFERENCE_PATTERN =
+  /(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s*(?:https?:\/\/[^\s/]+\/([\w.-]+)\/([\w.-]+)\/issues\/|([\w.-]+)\/([\w.-]+)#|#)(\d+)\b/gi;
 
-  // GitHub keywords that link to issues: https://docs.github.com/en/issues/tracking-your-work-with-issues/linking-a-pull-request-to-an-issue
-  const defaultPattern = /(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*#(\d+)/gi;
-  const defaultMatches = message.matchAll(defaultPattern);
+/**
+ * Parse issue references from a commit message
+ * Matches patterns like: Fixes #123, Closes org/repo#456, Resolves https://github.com/org/repo/issues/789, etc.
+ * @param customPattern Optional additional regex pattern (must have capture group for issue number; matches are in the workflow's repository)
+ */
+export function parseIssueReferencesFromCommitMessage(message: string, customPattern?: string | null): IssueRef[] {
+  const { owner, repo } = github.context.repo;
+  const references = new Map<string, IssueRef>();
+  const add = (ref: IssueRef) => {
+    if (!references.has(issueKey(ref))) {
+      references.set(issueKey(ref), ref);
+    }
+  };
 
-  for (const match of defaultMatches) {
-    issueNumbers.add(parseInt(match[1], 10));
+  for (const match of message.matchAll(CLOSING_REFERENCE_PATTERN)) {
+    add({
+      owner: match[1] ?? match[3] ?? owner,
+      repo: match[2] ?? match[4] ?? repo,
+      number: parseInt(match[5], 10),
+    });
   }
 
   // Also match custom pattern if provided
@@ -153,7 +271,7 @@ export function parseIssueNumbersFromCommitMessage(message: string, customPatter
         const numStr = match[1] || match[0];
         const num = parseInt(numStr, 10);
         if (!isNaN(num) && num > 0) {
-          issueNumbers.add(num);
+          add({ owner, repo, number: num });
         }
       }
     } catch (error) {
@@ -161,7 +279,17 @@ export function parseIssueNumbersFromCommitMessage(message: string, customPatter
     }
   }
 
-  return Array.from(issueNumbers);
+  return Array.from(references.values());
+}
+
+/**
+ * Parse numbers of issues in the workflow's repository from a commit message
+ * @param customPattern Optional additional regex pattern (must have capture group for issue number)
+ */
+export function parseIssueNumbersFromCommitMessage(message: string, customPattern?: string | null): number[] {
+  return parseIssueReferencesFromCommitMessage(message, customPattern)
+    .filter(isInCurrentRepo)
+    .map((ref) => ref.number);
 }
 
 /**
@@ -182,19 +310,19 @@ export async function getIssuesFromCommitMessage(githubToken: string, customPatt
       commit_sha: commitSha,
     });
 
-    const issueNumbers = parseIssueNumbersFromCommitMessage(commit.message, customPattern);
+    const references = parseIssueReferencesFromCommitMessage(commit.message, customPattern);
 
-    if (issueNumbers.length === 0) {
+    if (references.length === 0) {
       core.debug('No issue references found in commit message');
       return [];
     }
 
-    core.info(`Found ${issueNumbers.length} issue reference(s) in commit message: ${issueNumbers.map(n => `#${n}`).join(', ')}`);
+    core.info(`Found ${references.length} issue reference(s) in commit message: ${references.map(formatIssueRef).join(', ')}`);
 
     // Fetch each issue
     const issues: LinkedIssue[] = [];
-    for (const num of issueNumbers) {
-      const issue = await getIssueByNumber(githubToken, num);
+    for (const ref of references) {
+      const issue = await getIssueByNumber(githubToken, ref.number, ref);
       if (issue) {
         issues.push(issue);
       }
@@ -209,13 +337,16 @@ export async function getIssuesFromCommitMessage(githubToken: string, customPatt
 
 /**
  * Get a single issue by number (for manual testing mode)
+ * @param repository Repository the issue lives in (defaults to the workflow's repository)
  */
 export async function getIssueByNumber(
   githubToken: string,
-  issueNumber: number
+  issueNumber: number,
+  repository: { owner: string; repo: string } = github.context.repo
 ): Promise<LinkedIssue | null> {
   const octokit = github.getOctokit(githubToken);
-  const { owner, repo } = github.context.repo;
+  const { owner, repo } = repository;
+  const ref = formatIssueRef({ owner, repo, number: issueNumber });
 
   core.debug(`Fetching issue #${issueNumber} from ${owner}/${repo}`);
 
@@ -228,27 +359,105 @@ export async function getIssueByNumber(
 
     // Filter out PRs (GitHub treats PRs as issues in the API)
     if (issue.pull_request) {
-      core.warning(`#${issueNumber} is a pull request, not an issue`);
+      core.warning(`${ref} is a pull request, not an issue`);
       return null;
     }
 
-    const linkedIssue: LinkedIssue = {
-      number: issue.number,
-      title: issue.title,
-      body: issue.body ?? '',
-      state: issue.state === 'open' ? 'OPEN' : 'CLOSED',
-      labels: issue.labels
-        .filter((l): l is { name: string } => typeof l === 'object' && l !== null && 'name' in l)
-        .map((l) => ({ name: l.name! })),
-    };
+    const linkedIssue = toLinkedIssue(issue, repository);
 
-    core.info(`Found issue #${issueNumber}: ${linkedIssue.title}`);
+    core.info(`Found issue ${ref}: ${linkedIssue.title}`);
     return linkedIssue;
   } catch (error) {
     if (error instanceof Error && 'status' in error && (error as { status: number }).status === 404) {
-      core.warning(`Issue #${issueNumber} not found`);
+      core.warning(`Issue ${ref} not found`);
       return null;
     }
     throw error;
   }
 }
+
+/**
+ * Get all issues carrying a label
+ * @param state Only issues in this state (default: open and closed)
+ */
+export async function getIssuesWithLabel(
+  githubToken: string,
+  label: string,
+  state: 'open' | 'closed' | 'all' = 'all'
+): Promise<LinkedIssue[]> {
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+
+  core.debug(`Fetching issues labeled "${label}" from ${owner}/${repo}`);
+
+  const issues = await octokit.paginate(octokit.rest.issues.listForRepo, {
+    owner,
+    repo,
+    labels: label,
+    state,
+    per_page: 100,
+  });
+
+  // Filter out PRs (GitHub treats PRs as issues in the API)
+  return issues.filter((issue) => !issue.pull_request).map((issue) => toLinkedIssue(issue, { owner, repo }));
+}
+
+/**
+ * Find issues matching a GitHub search query, in the workflow's repository unless the query names others
+ * @param query Search qualifiers, e.g. `is:closed label:bug`; the repository and `is:issue` are added
+ * (GitHub ORs repeated `repo:` qualifiers, so `repo:org/issues` adds that repository's issues)
+ * @param limit Stop fetching pages once this many results were found (default: all of them)
+ */
+export async function searchIssues(githubToken: string, query: string, limit = Infinity): Promise<LinkedIssue[]> {
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+  const q = `repo:${owner}/${repo} is:issue ${query}`;
+
+  core.debug(`Searching issues: ${q}`);
+
+  let fetched = 0;
+  const issues = await octokit.paginate(octokit.rest.search.issuesAndPullRequests, { q, per_page: 100 }, (response, done) => {
+    fetched += response.data.length;
+    if (fetched >= limit) done();
+    return response.data;
+  });
+
+  return issues
+    .filter((issue) => !issue.pull_request)
+    .slice(0, limit)
+    .map((issue) => toLinkedIssue(issue, repositoryFromUrl(issue.repository_url)));
+}
+
+/**
+ * Owner and name of a repository from its REST API URL (https://api.github.com/repos/OWNER/REPO)
+ */
+function repositoryFromUrl(repositoryUrl: string): { owner: string; repo: string } {
+  const [owner, repo] = new URL(repositoryUrl).pathname.split('/').slice(-2);
+  return { owner, repo };
+}
+
+/**
+ * Convert a REST API issue to a LinkedIssue
+ */
+function toLinkedIssue(
+  issue: {
+    number: number;
+    title: string;
+    body?: string | null;
+    state: string;
+    labels: Array<string | { name?: string }>;
+  },
+  repository: { owner: string; repo: string }
+): LinkedIssue {
+  return {
+    owner: repository.owner,
+    repo: repository.repo,
+    number: issue.number,
+    title: issue.title,
+    body: issue.body ?? '',
+    state: issue.state === 'open' ? 'OPEN' : 'CLOSED',
+    labels: issue.labels
+      .filter((l): l is { name: string } => typeof l === 'object' && l !== null && 'name' in l)
+      .map((l) => ({ name: l.name! })),
+  };
+}
@@ -0,0 +1,37 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import type { IssueRef } from '../types';
+
+// Permission levels that allow a user to start and cancel paid tests (GitHub reports maintain as write)
+const WRITE_PERMISSIONS = ['admin', 'write'];
+
+/**
+ * Check whether a user can push to a repository (write, maintain or admin)
+ * @param repository Repository to check (defaults to the workflow's repository)
+ */
+export async function hasWriteAccess(
+  githubToken: string,
+  username: string,
+  repository: { owner: string; repo: string } = github.context.repo
+): Promise<boolean> {
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = repository;
+
+  const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+
+  core.debug(`@${username} has ${data.permission} permission on ${owner}/${repo}`);
+  return WRITE_PERMISSIONS.includes(data.permission);
+}
+
+/**
+ * Check whether an issue's author can push to the issue's repository. Only the author and such collaborators
+ * can edit the issue body, so settings in the body are then as trustworthy as the workflow's own.
+ */
+export async function isAuthorCollaborator(githubToken: string, issue: IssueRef): Promise<boolean> {
+  const octokit = github.getOctokit(githubToken);
+
+  const { data } = await octokit.rest.issues.get({ owner: issue.owner, repo: issue.repo, issue_number: issue.number });
+  if (!data.user) return false;
+
+  return hasWriteAccess(githubToken, data.user.login, issue);
+}
@@ -0,0 +1,48 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import { parseMarker } from '../markers';
+import { filterActionComments } from './comment-author';
+
+/**
+ * Post the pre-merge report on a PR, editing the report an earlier run posted instead of adding another
+ */
+export async function postPRReportComment(githubToken: string, prNumber: number, body: string): Promise<void> {
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner,
+    repo,
+    issue_number: prNumber,
+    per_page: 100,
+  });
+
+  // Only the action's own comments can be edited with its token
+  const ownComments = await filterActionComments(githubToken, comments);
+  const previous = [...ownComments].reverse().find((comment) => comment.body && parseMarker(comment.body, 'pr-report'));
+
+  if (previous) {
+    core.debug(`Updating report comment ${previous.id} on PR #${prNumber}`);
+
+    await octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: previous.id,
+      body,
+    });
+
+    core.info(`Updated QA report on PR #${prNumber}`);
+    return;
+  }
+
+  core.debug(`Posting report comment to PR #${prNumber}`);
+
+  await octokit.rest.issues.createComment({
+    owner,
+    repo,
+    issue_number: prNumber,
+    body,
+  });
+
+  core.info(`Posted QA report to PR #${prNumber}`);
+}
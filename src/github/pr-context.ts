@@ -33,16 +33,16 @@ export async function getPRContext(
     pull_number: prNumber,
   });
 
-  // Fetch issue comments (general PR discussion)
-  const { data: issueComments } = await octokit.rest.issues.listComments({
+  // Fetch issue comments (general PR discussion), all pages
+  const issueComments = await octokit.paginate(octokit.rest.issues.listComments, {
     owner,
     repo,
     issue_number: prNumber,
     per_page: 100,
   });
 
-  // Fetch review comments (code-specific comments)
-  const { data: reviewComments } = await octokit.rest.pulls.listReviewComments({
+  // Fetch review comments (code-specific comments), all pages
+  const reviewComments = await octokit.paginate(octokit.rest.pulls.listReviewComments, {
     owner,
     repo,
     pull_number: prNumber,
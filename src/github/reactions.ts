@@ -0,0 +1,24 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+
+/**
+ * Reactions GitHub supports on comments
+ */
+export type ReactionContent = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+
+/**
+ * React to a comment in the workflow's repository
+ */
+export async function addCommentReaction(githubToken: string, commentId: number, content: ReactionContent): Promise<void> {
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+
+  core.debug(`Reacting with "${content}" to comment ${commentId}`);
+
+  await octokit.rest.reactions.createForIssueComment({
+    owner,
+    repo,
+    comment_id: commentId,
+    content,
+  });
+}
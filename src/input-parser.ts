@@ -1,6 +1,25 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import type { ParsedInputs } from './types';
+import { loadCommentTemplate } from './templates/comment-template';
+import {
+  DEFAULT_POLL_INTERVAL_SECONDS,
+  DEFAULT_POLL_BACKOFF_MULTIPLIER,
+  DEFAULT_POLL_MAX_INTERVAL_SECONDS,
+} from './api/run-test';
+import { DEFAULT_MAX_ATTEMPTS } from './api/retry';
+import { loadRepoConfig, settingKey, CONFIG_SETTING_NAMES, DEFAULT_CONFIG_FILE, type RepoConfig } from './repo-config';
+import type { ConfigSettingName, ParsedInputs, SettingSource } from './types';
+
+/**
+ * Defaults of the settings the repository config file can set (matching action.yml)
+ */
+const CONFIG_SETTING_DEFAULTS: Record<ConfigSettingName, string> = {
+  'test-url': '',
+  'target-duration-minutes': '5',
+  'qa-label': 'qa-test',
+  'failure-label': 'qa-failed',
+  'reopen-on-failure': 'true',
+};
 
 /**
  * Parse and validate action inputs
@@ -9,15 +28,65 @@ export function parseInputs(): ParsedInputs {
   const apiKey = core.getInput('api-key', { required: true });
   const githubToken = core.getInput('github-token', { required: true });
   const apiUrl = core.getInput('api-url') || 'https://runhuman.com';
-  const qaLabel = core.getInput('qa-label') || 'qa-test';
+
+  // Settings that can also come from the repository config file
+  const configFile = core.getInput('config-file') || DEFAULT_CONFIG_FILE;
+  const repoConfig = loadRepoConfig(configFile, configFile !== DEFAULT_CONFIG_FILE);
+  if (repoConfig) {
+    core.info(`Loaded ${configFile} (${repoConfig.rules.length} rule(s))`);
+  }
+
+  // Resolve each of them and report where it came from
+  const settings = {} as Record<ConfigSettingName, string>;
+  const settingSources = {} as Record<ConfigSettingName, SettingSource>;
+  for (const name of CONFIG_SETTING_NAMES) {
+    const { value, source } = resolveSetting(name, repoConfig);
+    settings[name] = value;
+    settingSources[name] = source;
+    core.info(`Setting ${name}: ${value || '(none)'} (from ${source})`);
+  }
+  const qaLabel = settings['qa-label'];
+  const targetDurationMinutesStr = settings['target-duration-minutes'];
+  const reopenOnFailure = settings['reopen-on-failure'] !== 'false';
+  const failureLabel = settings['failure-label'];
+  const testUrlStr = settings['test-url'];
+
   const autoDetect = core.getInput('auto-detect') !== 'false';
-  const targetDurationMinutesStr = core.getInput('target-duration-minutes') || '5';
-  const reopenOnFailure = core.getInput('reopen-on-failure') !== 'false';
-  const failureLabel = core.getInput('failure-label') || 'qa-failed';
   const removeFailureLabelOnSuccess = core.getInput('remove-failure-label-on-success') !== 'false';
   const issueNumberStr = core.getInput('issue-number');
-  const testUrlStr = core.getInput('test-url');
+  const issueNumbersStr = core.getInput('issue-numbers');
+  const issueQuery = core.getInput('issue-query').trim() || null;
+  const environment = core.getInput('environment') || null;
   const issuePatternStr = core.getInput('issue-pattern');
+  const maxConcurrencyStr = core.getInput('max-concurrency') || '3';
+  const maxTotalCostUsdStr = core.getInput('max-total-cost-usd');
+  const maxCostUsdStr = core.getInput('max-cost-usd');
+  const stickyComment = core.getInput('sticky-comment') === 'true';
+  const commentTemplatePath = core.getInput('comment-template');
+  const pollIntervalStr = core.getInput('poll-interval-seconds') || String(DEFAULT_POLL_INTERVAL_SECONDS);
+  const pollBackoffStr = core.getInput('poll-backoff-multiplier') || String(DEFAULT_POLL_BACKOFF_MULTIPLIER);
+  const pollMaxIntervalStr = core.getInput('poll-max-interval-seconds') || String(DEFAULT_POLL_MAX_INTERVAL_SECONDS);
+  const maxWaitMinutesStr = core.getInput('max-wait-minutes');
+  const modeStr = core.getInput('mode') || 'full';
+  const pendingLabel = core.getInput('pending-label') || 'qa-pending';
+  const apiMaxAttemptsStr = core.getInput('api-max-attempts') || String(DEFAULT_MAX_ATTEMPTS);
+  const checkRun = core.getInput('check-run') === 'true';
+  const checkName = core.getInput('check-name') || 'Runhuman QA';
+  const inconclusivePolicyStr = core.getInput('inconclusive-policy') || 'label';
+  const inconclusiveLabel = core.getInput('inconclusive-label') || 'qa-inconclusive';
+  const maxAttemptsStr = core.getInput('max-attempts') || '1';
+  const testersPerIssueStr = core.getInput('testers-per-issue') || '1';
+  const consensusStr = core.getInput('consensus') || 'majority';
+  const dryRun = core.getInput('dry-run') === 'true';
+  const dryRunComment = core.getInput('dry-run-comment') === 'true';
+  const minConfidenceStr = core.getInput('min-confidence') || '0';
+  const needsReviewLabel = core.getInput('needs-review-label') || 'qa-needs-review';
+  const approvalLabel = core.getInput('approval-label') || 'qa-approved';
+  const requireApproval = core.getInput('require-approval') === 'true';
+  const awaitingApprovalLabel = core.getInput('awaiting-approval-label') || 'qa-awaiting-approval';
+  const regressionLabel = core.getInput('regression-label') || 'qa-regression';
+  const regressionScopeStr = core.getInput('regression-scope') || 'all';
+  const regressionMaxIssuesStr = core.getInput('regression-max-issues') || '5';
 
   // Validate API key format
   if (!apiKey.startsWith('qa_live_')) {
@@ -42,6 +111,18 @@ export function parseInputs(): ParsedInputs {
     }
   }
 
+  // Parse and validate the issue list (optional)
+  const issueNumbers: number[] = [];
+  for (const item of issueNumbersStr.split(',').map((s) => s.trim().replace(/^#/, '')).filter(Boolean)) {
+    const number = Number(item);
+    if (!Number.isInteger(number) || number < 1) {
+      throw new Error('issue-numbers must be a comma-separated list of positive integers');
+    }
+    if (!issueNumbers.includes(number)) {
+      issueNumbers.push(number);
+    }
+  }
+
   // Parse and validate test URL (optional)
   let testUrl: string | null = null;
   if (testUrlStr) {
@@ -62,6 +143,120 @@ export function parseInputs(): ParsedInputs {
     }
   }
 
+  // Parse and validate max concurrency
+  const maxConcurrency = parseInt(maxConcurrencyStr, 10);
+  if (isNaN(maxConcurrency) || maxConcurrency < 1 || maxConcurrency > 20) {
+    throw new Error('max-concurrency must be a number between 1 and 20');
+  }
+
+  // Parse and validate cost limits (optional)
+  const maxTotalCostUsd = parseCostLimit('max-total-cost-usd', maxTotalCostUsdStr);
+  const maxCostUsd = parseCostLimit('max-cost-usd', maxCostUsdStr);
+
+  // Parse and validate polling configuration
+  const pollIntervalSeconds = parseInt(pollIntervalStr, 10);
+  if (isNaN(pollIntervalSeconds) || pollIntervalSeconds < 5 || pollIntervalSeconds > 600) {
+    throw new Error('poll-interval-seconds must be a number between 5 and 600');
+  }
+
+  const pollBackoffMultiplier = parseFloat(pollBackoffStr);
+  if (isNaN(pollBackoffMultiplier) || pollBackoffMultiplier < 1 || pollBackoffMultiplier > 5) {
+    throw new Error('poll-backoff-multiplier must be a number between 1 and 5');
+  }
+
+  const pollMaxIntervalSeconds = parseInt(pollMaxIntervalStr, 10);
+  if (isNaN(pollMaxIntervalSeconds) || pollMaxIntervalSeconds < pollIntervalSeconds || pollMaxIntervalSeconds > 600) {
+    throw new Error('poll-max-interval-seconds must be a number between poll-interval-seconds and 600');
+  }
+
+  let maxWaitMinutes: number | null = null;
+  if (maxWaitMinutesStr) {
+    maxWaitMinutes = parseInt(maxWaitMinutesStr, 10);
+    if (isNaN(maxWaitMinutes) || maxWaitMinutes < 1 || maxWaitMinutes > 360) {
+      throw new Error('max-wait-minutes must be a number between 1 and 360');
+    }
+  }
+
+  // Validate mode
+  if (
+    modeStr !== 'full' &&
+    modeStr !== 'dispatch' &&
+    modeStr !== 'collect' &&
+    modeStr !== 'pre-merge' &&
+    modeStr !== 'regression'
+  ) {
+    throw new Error('mode must be one of: full, dispatch, collect, pre-merge, regression');
+  }
+  const mode = modeStr;
+
+  // Pre-merge results are reported on the PR, so there has to be one; regression runs choose their own issues
+  if ((mode === 'pre-merge' || mode === 'regression') && issueNumber !== null) {
+    throw new Error(`issue-number cannot be used with mode: ${mode}`);
+  }
+  if ((mode === 'pre-merge' || mode === 'regression') && issueNumbers.length > 0) {
+    throw new Error(`issue-numbers cannot be used with mode: ${mode}`);
+  }
+  if ((mode === 'pre-merge' || mode === 'regression') && issueQuery !== null) {
+    throw new Error(`issue-query cannot be used with mode: ${mode}`);
+  }
+
+  // Validate regression settings
+  if (regressionScopeStr !== 'label' && regressionScopeStr !== 'passed' && regressionScopeStr !== 'all') {
+    throw new Error('regression-scope must be one of: label, passed, all');
+  }
+  const regressionScope = regressionScopeStr;
+  const regressionMaxIssues = parseInt(regressionMaxIssuesStr, 10);
+  if (isNaN(regressionMaxIssues) || regressionMaxIssues < 1 || regressionMaxIssues > 50) {
+    throw new Error('regression-max-issues must be a number between 1 and 50');
+  }
+
+  // Collect runs only post results of jobs that already exist
+  if (dryRun && mode === 'collect') {
+    throw new Error('dry-run cannot be used with mode: collect');
+  }
+
+  // Parse and validate API retry attempts
+  const apiMaxAttempts = parseInt(apiMaxAttemptsStr, 10);
+  if (isNaN(apiMaxAttempts) || apiMaxAttempts < 1 || apiMaxAttempts > 10) {
+    throw new Error('api-max-attempts must be a number between 1 and 10');
+  }
+
+  // Validate inconclusive policy
+  if (inconclusivePolicyStr !== 'ignore' && inconclusivePolicyStr !== 'label' && inconclusivePolicyStr !== 'retry') {
+    throw new Error('inconclusive-policy must be one of: ignore, label, retry');
+  }
+  const inconclusivePolicy = inconclusivePolicyStr;
+
+  // Parse and validate attempts per issue
+  const maxAttempts = parseInt(maxAttemptsStr, 10);
+  if (isNaN(maxAttempts) || maxAttempts < 1 || maxAttempts > 5) {
+    throw new Error('max-attempts must be a number between 1 and 5');
+  }
+
+  // Parse and validate consensus settings
+  const testersPerIssue = parseInt(testersPerIssueStr, 10);
+  if (isNaN(testersPerIssue) || testersPerIssue < 1 || testersPerIssue > 5) {
+    throw new Error('testers-per-issue must be a number between 1 and 5');
+  }
+  if (consensusStr !== 'majority' && consensusStr !== 'unanimous' && consensusStr !== 'any-fail') {
+    throw new Error('consensus must be one of: majority, unanimous, any-fail');
+  }
+  const consensus = consensusStr;
+
+  // Dispatch and collect runs track one job per issue
+  if (testersPerIssue > 1 && (mode === 'dispatch' || mode === 'collect')) {
+    throw new Error(`testers-per-issue above 1 cannot be used with mode: ${mode}`);
+  }
+
+  // Parse and validate the confidence threshold (0 = every analysis is trusted)
+  const minConfidence = parseFloat(minConfidenceStr);
+  if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+    throw new Error('min-confidence must be a number between 0 and 1');
+  }
+
+  // Load and validate the comment template (optional)
+  const commentTemplate = commentTemplatePath ? loadCommentTemplate(commentTemplatePath) : null;
+
   // Get current GitHub repo from context
   const { owner, repo } = github.context.repo;
   const githubRepo = `${owner}/${repo}`;
@@ -77,16 +272,83 @@ export function parseInputs(): ParsedInputs {
     failureLabel,
     removeFailureLabelOnSuccess,
     issueNumber,
+    issueNumbers,
+    issueQuery,
     testUrl,
+    environment,
     issuePattern,
     githubRepo,
+    maxConcurrency,
+    maxTotalCostUsd,
+    maxCostUsd,
+    stickyComment,
+    commentTemplate,
+    pollIntervalSeconds,
+    pollBackoffMultiplier,
+    pollMaxIntervalSeconds,
+    maxWaitMinutes,
+    mode,
+    pendingLabel,
+    apiMaxAttempts,
+    checkRun,
+    checkName,
+    inconclusivePolicy,
+    inconclusiveLabel,
+    maxAttempts,
+    testersPerIssue,
+    consensus,
+    dryRun,
+    dryRunComment,
+    minConfidence,
+    needsReviewLabel,
+    approvalLabel,
+    requireApproval,
+    awaitingApprovalLabel,
+    regressionLabel,
+    regressionScope,
+    regressionMaxIssues,
+    rules: repoConfig?.rules ?? [],
+    settingSources,
   };
 }
 
+/**
+ * Resolve a setting the config file can also set: an input that differs from its default wins,
+ * then the config file, then the default
+ */
+function resolveSetting(name: ConfigSettingName, repoConfig: RepoConfig | null): { value: string; source: SettingSource } {
+  const input = core.getInput(name);
+  const defaultValue = CONFIG_SETTING_DEFAULTS[name];
+
+  if (input && input !== defaultValue) {
+    return { value: input, source: 'input' };
+  }
+
+  const configValue = repoConfig?.settings[settingKey(name)];
+  if (configValue !== undefined && configValue !== null) {
+    return { value: String(configValue), source: 'config' };
+  }
+
+  return { value: input || defaultValue, source: 'default' };
+}
+
+/**
+ * Parse an optional USD cost limit (empty = no limit)
+ */
+function parseCostLimit(name: string, value: string): number | null {
+  if (!value) return null;
+
+  const limit = parseFloat(value);
+  if (isNaN(limit) || limit <= 0) {
+    throw new Error(`${name} must be a positive number`);
+  }
+  return limit;
+}
+
 /**
  * Validate that a string is a valid HTTP/HTTPS URL
  */
-function isValidUrl(url: string): boolean {
+export function isValidUrl(url: string): boolean {
   try {
     const parsed = new URL(url);
     return parsed.protocol === 'https:' || parsed.protocol === 'http:';
@@ -0,0 +1,186 @@
+import { parse as parseYaml } from 'yaml';
+import { isValidUrl } from './input-parser';
+import type { AnalyzeIssueResponse } from './types';
+
+/**
+ * Per-issue test settings from a fenced `runhuman` YAML block in the issue body
+ */
+export interface IssueTestConfig {
+  /** Test URL for this issue (takes precedence over test-url, deployments and the AI-detected URL) */
+  testUrl?: string;
+  /** Target test duration for this issue (1-60) */
+  targetDurationMinutes?: number;
+  /** Instructions appended to the AI-generated test instructions */
+  instructions?: string;
+  /** Extra fields for the tester to report, merged into the AI-generated output schema */
+  outputFields?: AnalyzeIssueResponse['outputSchema'];
+  /** true = never test (with an optional reason); false = test even if the AI considers the issue untestable */
+  skip?: boolean;
+  /** Reason shown when the block skips the issue */
+  skipReason?: string;
+}
+
+/**
+ * Result of reading the config block from an issue body
+ */
+export interface ParsedIssueConfig {
+  config: IssueTestConfig;
+  /** Issue body with all runhuman blocks removed (what the AI and the tester see) */
+  body: string;
+  /** Problems found in the block; the offending settings are ignored */
+  warnings: string[];
+}
+
+const CONFIG_BLOCK_PATTERN = /^(```|~~~)[ \t]*runhuman[ \t]*\r?\n([\s\S]*?)^\1[ \t]*$\r?\n?/gm;
+
+const KNOWN_KEYS = ['url', 'duration-minutes', 'instructions', 'output-fields', 'skip'];
+
+const OUTPUT_FIELD_TYPES = ['string', 'number', 'boolean'];
+
+/**
+ * Read the fenced `runhuman` block from an issue body:
+ *
+ * ```runhuman
+ * url: https://staging.example.com/admin
+ * duration-minutes: 15
+ * instructions: Log in with the shared admin account first
+ * output-fields:
+ *   export_works: Could you export the report as CSV?
+ * skip: false
+ * ```
+ */
+export function parseIssueConfig(issueBody: string): ParsedIssueConfig {
+  const blocks = [...issueBody.matchAll(CONFIG_BLOCK_PATTERN)];
+  const body = issueBody.replace(CONFIG_BLOCK_PATTERN, '').trim();
+  const warnings: string[] = [];
+
+  if (blocks.length === 0) {
+    return { config: {}, body: issueBody, warnings };
+  }
+  if (blocks.length > 1) {
+    warnings.push(`found ${blocks.length} runhuman blocks, only the first is used`);
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(blocks[0][2]);
+  } catch (error) {
+    warnings.push(`runhuman block is not valid YAML (${error instanceof Error ? error.message.split('\n')[0] : error})`);
+    return { config: {}, body, warnings };
+  }
+
+  if (data === null || data === undefined) {
+    return { config: {}, body, warnings };
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    warnings.push('runhuman block must be a YAML mapping of settings');
+    return { config: {}, body, warnings };
+  }
+
+  return { config: validateConfig(data as Record<string, unknown>, warnings), body, warnings };
+}
+
+/**
+ * Validate the settings of a runhuman block, dropping invalid ones with a warning
+ */
+function validateConfig(data: Record<string, unknown>, warnings: string[]): IssueTestConfig {
+  const config: IssueTestConfig = {};
+
+  for (const key of Object.keys(data)) {
+    if (!KNOWN_KEYS.includes(key)) {
+      warnings.push(`unknown setting "${key}" in runhuman block (expected one of: ${KNOWN_KEYS.join(', ')})`);
+    }
+  }
+
+  const { url, instructions, skip } = data;
+  const duration = data['duration-minutes'];
+  const outputFields = data['output-fields'];
+
+  if (url !== undefined) {
+    if (typeof url === 'string' && isValidUrl(url)) {
+      config.testUrl = url;
+    } else {
+      warnings.push('url in runhuman block must be a valid URL (http:// or https://)');
+    }
+  }
+
+  if (duration !== undefined) {
+    if (typeof duration === 'number' && Number.isInteger(duration) && duration >= 1 && duration <= 60) {
+      config.targetDurationMinutes = duration;
+    } else {
+      warnings.push('duration-minutes in runhuman block must be a whole number between 1 and 60');
+    }
+  }
+
+  if (instructions !== undefined) {
+    if (typeof instructions === 'string' && instructions.trim()) {
+      config.instructions = instructions.trim();
+    } else {
+      warnings.push('instructions in runhuman block must be non-empty text');
+    }
+  }
+
+  if (outputFields !== undefined) {
+    config.outputFields = validateOutputFields(outputFields, warnings);
+  }
+
+  if (skip !== undefined) {
+    if (typeof skip === 'boolean') {
+      config.skip = skip;
+    } else if (typeof skip === 'string' && skip.trim()) {
+      // A reason implies skipping
+      config.skip = true;
+      config.skipReason = skip.trim();
+    } else {
+      warnings.push('skip in runhuman block must be true, false or a reason');
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Validate output fields: `name: description` or `name: { type, description }`
+ */
+function validateOutputFields(value: unknown, warnings: string[]): AnalyzeIssueResponse['outputSchema'] | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    warnings.push('output-fields in runhuman block must map field names to descriptions');
+    return undefined;
+  }
+
+  const fields: AnalyzeIssueResponse['outputSchema'] = {};
+
+  for (const [name, field] of Object.entries(value)) {
+    if (typeof field === 'string') {
+      fields[name] = { type: 'string', description: field };
+      continue;
+    }
+
+    const { type = 'string', description } = (typeof field === 'object' && field !== null ? field : {}) as {
+      type?: unknown;
+      description?: unknown;
+    };
+    if (typeof description !== 'string' || typeof type !== 'string' || !OUTPUT_FIELD_TYPES.includes(type)) {
+      warnings.push(
+        `output field "${name}" in runhuman block needs a description and a type of ${OUTPUT_FIELD_TYPES.join(', ')}`
+      );
+      continue;
+    }
+    fields[name] = { type, description };
+  }
+
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+/**
+ * Apply the instructions and output fields of a runhuman block to the AI analysis
+ */
+export function applyIssueConfig(analysis: AnalyzeIssueResponse, config: IssueTestConfig): AnalyzeIssueResponse {
+  return {
+    ...analysis,
+    testInstructions: config.instructions
+      ? `${analysis.testInstructions}\n\nAdditional instructions:\n${config.instructions}`
+      : analysis.testInstructions,
+    outputSchema: config.outputFields ? { ...analysis.outputSchema, ...config.outputFields } : analysis.outputSchema,
+  };
+}
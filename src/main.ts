@@ -1,57 +1,104 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
 import { parseInputs } from './input-parser';
-import { getLinkedIssues, getIssueByNumber, hasLabel, findMergedPRForCommit, getIssuesFromCommitMessage } from './github/linked-issues';
+import { getLinkedIssues, hasLabel, findMergedPRForCommit, getIssuesFromCommitMessage } from './github/linked-issues';
 import { getPRContext } from './github/pr-context';
-import { postTestResultComment } from './github/issue-commenter';
-import { reopenIssue, addLabel, removeLabel, ensureIssueClosed } from './github/issue-manager';
-import { analyzeIssue } from './api/analyze-issue';
-import { runQATest } from './api/run-test';
-import type { ActionResults, IssueTestResult, LinkedIssue, PRContext } from './types';
+import { findDeploymentUrl } from './github/deployments';
+import { createCheckRun, completeCheckRun, updatePendingCheckRun } from './github/check-run';
+import { formatIssueRef, issueKey, resultRepository } from './github/issue-ref';
+import { postPRReportComment } from './github/pr-commenter';
+import { buildPRReportComment } from './templates/pr-report';
+import { buildTestPlan, buildPlanPreviewComment } from './templates/test-plan';
+import { postPlanPreviewComment } from './github/issue-commenter';
+import { processIssue, type RunContext } from './process-issue';
+import { collectPendingResults, dispatchApprovedIssues } from './collect';
+import { handleSlashCommand } from './slash-command';
+import { selectRegressionIssues } from './regression';
+import { hasRequestedIssues, selectRequestedIssues } from './requested-issues';
+import { mapWithConcurrency, createLock } from './concurrency';
+import { buildActionResults, formatResultIssue, describeInconclusive, resultCostUsd } from './results';
+import { createCostBudget } from './budget';
+import { resolveIssueSettings } from './repo-config';
+import type { ActionResults, IssueTestResult, LinkedIssue, ParsedInputs, PRContext } from './types';
 
 /**
  * Main entry point for the action
  */
 async function run(): Promise<void> {
-  const results: ActionResults = {
-    testedIssues: [],
-    passedIssues: [],
-    failedIssues: [],
-    skippedIssues: [],
-    totalCostUsd: 0,
-    results: [],
-  };
+  const issueResults: IssueTestResult[] = [];
 
   try {
     // 1. Parse inputs
     const inputs = parseInputs();
     core.debug('Inputs parsed successfully');
 
+    // Collect mode: pick up results of jobs dispatched by earlier runs (and dispatch tests approved since)
+    if (inputs.mode === 'collect') {
+      core.info(`Collect mode: checking jobs dispatched by earlier runs`);
+      const budget = createCostBudget(inputs.maxTotalCostUsd);
+      const collected = await collectPendingResults(inputs, budget);
+      const dispatched = inputs.requireApproval ? await dispatchApprovedIssues(inputs, budget) : [];
+      await reportResults(buildActionResults([...collected, ...dispatched]), inputs);
+      return;
+    }
+
+    // Slash command in an issue comment: test, report on or cancel that issue's test
+    if (github.context.eventName === 'issue_comment') {
+      await reportResults(buildActionResults(await handleSlashCommand(inputs)), inputs);
+      return;
+    }
+
     let issuesToProcess: LinkedIssue[];
     let prContext: PRContext | null = null;
+    let prNumber: number | null = null;
+    // Commit under test: the merge commit, or the PR head before merge
+    let commitSha = github.context.sha;
 
-    // 2. Determine mode: manual (issue-number) or PR merge
-    if (inputs.issueNumber !== null) {
-      // Manual mode: test specific issue (no PR context available)
-      core.info(`Manual mode: Testing issue #${inputs.issueNumber}`);
-      const issue = await getIssueByNumber(inputs.githubToken, inputs.issueNumber);
+    // 2. Determine mode: regression sweep, manual (issue-number, issue-numbers, issue-query) or PR merge
+    if (inputs.mode === 'regression') {
+      core.info('Regression mode: retesting closed issues that were verified before');
+      issuesToProcess = await selectRegressionIssues(inputs);
 
-      if (!issue) {
-        core.setFailed(`Issue #${inputs.issueNumber} not found or is a pull request`);
+      if (issuesToProcess.length === 0) {
+        core.info('No closed issues to retest');
+        await reportNothingToTest(buildActionResults(issueResults), inputs, commitSha);
         return;
       }
+    } else if (hasRequestedIssues(inputs)) {
+      // Manual mode: test specific issues (no PR context available)
+      core.info('Manual mode: testing requested issues');
+      issuesToProcess = await selectRequestedIssues(inputs);
 
-      issuesToProcess = [issue];
+      if (issuesToProcess.length === 0 && inputs.issueQuery === null) {
+        core.setFailed('None of the requested issues were found');
+        return;
+      }
+      if (issuesToProcess.length === 0) {
+        core.info('No issues match issue-query');
+        await reportNothingToTest(buildActionResults(issueResults), inputs, commitSha);
+        return;
+      }
     } else {
       // PR merge mode: get linked issues from merged PR
-      let prNumber: number | null = null;
-
       // Check if we're in a pull_request event
       const pullRequest = github.context.payload.pull_request;
-      if (pullRequest) {
+      if (inputs.mode === 'pre-merge') {
+        // Pre-merge mode: test the open PR's linked issues against its head commit
+        if (!pullRequest) {
+          throw new Error('mode: pre-merge requires a pull_request event');
+        }
+        if (pullRequest.state !== 'open') {
+          core.info('Pull request is not open, skipping pre-merge verification');
+          setOutputs(buildActionResults(issueResults));
+          return;
+        }
+        prNumber = pullRequest.number;
+        commitSha = pullRequest.head.sha;
+        core.info(`Verifying PR #${prNumber} before merge: ${pullRequest.title}`);
+      } else if (pullRequest) {
         if (!pullRequest.merged) {
           core.info('Pull request was not merged, skipping');
-          setOutputs(results);
+          setOutputs(buildActionResults(issueResults));
           return;
         }
         prNumber = pullRequest.number;
@@ -81,17 +128,18 @@ async function run(): Promise<void> {
       // Get linked issues from PR via GraphQL (if we have a PR)
       const prLinkedIssues = prNumber ? await getLinkedIssues(inputs.githubToken, prNumber) : [];
 
-      // Also get issues referenced in commit message
-      const commitIssues = await getIssuesFromCommitMessage(inputs.githubToken, inputs.issuePattern);
+      // Also get issues referenced in commit message (before merge, the context commit is GitHub's test merge)
+      const commitIssues =
+        inputs.mode === 'pre-merge' ? [] : await getIssuesFromCommitMessage(inputs.githubToken, inputs.issuePattern);
 
-      // Combine and deduplicate issues
-      const issueMap = new Map<number, LinkedIssue>();
+      // Combine and deduplicate issues (the same number can refer to issues in different repositories)
+      const issueMap = new Map<string, LinkedIssue>();
       for (const issue of prLinkedIssues) {
-        issueMap.set(issue.number, issue);
+        issueMap.set(issueKey(issue), issue);
       }
       for (const issue of commitIssues) {
-        if (!issueMap.has(issue.number)) {
-          issueMap.set(issue.number, issue);
+        if (!issueMap.has(issueKey(issue))) {
+          issueMap.set(issueKey(issue), issue);
         }
       }
       const linkedIssues = Array.from(issueMap.values());
@@ -105,16 +153,17 @@ async function run(): Promise<void> {
 
       if (linkedIssues.length === 0) {
         core.info('No linked issues found, nothing to test');
-        setOutputs(results);
+        await reportNothingToTest(buildActionResults(issueResults), inputs, commitSha);
         return;
       }
 
-      // Separate labeled issues (always tested) from unlabeled issues
-      const labeledIssues = linkedIssues.filter((issue) => hasLabel(issue, inputs.qaLabel));
-      const unlabeledIssues = linkedIssues.filter((issue) => !hasLabel(issue, inputs.qaLabel));
+      // Separate labeled issues (always tested) from unlabeled issues; config rules can change the label per issue
+      const hasQALabel = (issue: LinkedIssue) => hasLabel(issue, resolveIssueSettings(issue, inputs).qaLabel);
+      const labeledIssues = linkedIssues.filter(hasQALabel);
+      const unlabeledIssues = linkedIssues.filter((issue) => !hasQALabel(issue));
 
       if (labeledIssues.length > 0) {
-        core.info(`Found ${labeledIssues.length} issue(s) with "${inputs.qaLabel}" label (will be tested)`);
+        core.info(`Found ${labeledIssues.length} issue(s) with the QA label (will be tested)`);
       }
 
       if (inputs.autoDetect && unlabeledIssues.length > 0) {
@@ -125,43 +174,65 @@ async function run(): Promise<void> {
         // No auto-detect: only labeled issues
         issuesToProcess = labeledIssues;
         for (const issue of unlabeledIssues) {
-          core.info(`Skipping issue #${issue.number}: missing "${inputs.qaLabel}" label (auto-detect disabled)`);
-          results.skippedIssues.push(issue.number);
-          results.results.push({
+          const { qaLabel } = resolveIssueSettings(issue, inputs);
+          core.info(`Skipping issue ${formatIssueRef(issue)}: missing "${qaLabel}" label (auto-detect disabled)`);
+          issueResults.push({
             issueNumber: issue.number,
+            repository: resultRepository(issue),
             status: 'skipped',
             passed: false,
-            skipReason: `Missing "${inputs.qaLabel}" label`,
+            skipReason: `Missing "${qaLabel}" label`,
           });
         }
       }
 
       if (issuesToProcess.length === 0) {
         core.info('No testable issues found');
-        setOutputs(results);
+        await reportNothingToTest(buildActionResults(issueResults), inputs, commitSha);
         return;
       }
     }
 
-    core.info(`Processing ${issuesToProcess.length} issue(s)`);
+    // Resolve the base test URL from the tested commit's deployment (a manual test-url takes precedence)
+    const deploymentUrl = inputs.testUrl ? null : await findDeploymentUrl(inputs.githubToken, commitSha, inputs.environment);
 
-    // 5. Process each issue sequentially
-    for (const issue of issuesToProcess) {
-      await processIssue(issue, inputs, results, prContext);
-    }
+    core.info(`Processing ${issuesToProcess.length} issue(s) (max ${inputs.maxConcurrency} at a time)`);
 
-    // 6. Set outputs
-    setOutputs(results);
+    // Show the check as in progress while testers work
+    const checkRunId = await startCheckRun(inputs, commitSha, issuesToProcess.length);
 
-    // 7. Create workflow summary
-    await createSummary(results);
+    // 5. Process issues concurrently; GitHub side effects are serialized through a shared lock
+    const run: RunContext = {
+      commitSha,
+      prContext,
+      deploymentUrl,
+      githubLock: createLock(),
+      budget: createCostBudget(inputs.maxTotalCostUsd),
+      checkRunId,
+    };
+    const processed = await mapWithConcurrency(issuesToProcess, inputs.maxConcurrency, (issue) =>
+      processIssue(issue, inputs, run)
+    );
+    issueResults.push(...processed);
+
+    const results = buildActionResults(issueResults);
 
-    // 8. Determine if we should fail
-    // Only fail if ALL tests had system errors (not test failures)
-    const systemErrors = results.results.filter((r) => r.status === 'error');
-    if (systemErrors.length > 0 && systemErrors.length === results.results.length) {
-      core.setFailed('All tests failed due to system errors');
+    // Dry run: optionally show each analyzed issue its plan (the summary always has it)
+    if (inputs.dryRun && inputs.dryRunComment) {
+      await postPlanPreviews(issuesToProcess, processed, inputs, commitSha);
+    }
+
+    // Pre-merge: report all verdicts in one PR comment instead of on the issues
+    if (inputs.mode === 'pre-merge' && prNumber && !inputs.dryRun) {
+      try {
+        await postPRReportComment(inputs.githubToken, prNumber, buildPRReportComment(results, commitSha));
+      } catch (error) {
+        core.warning(`Failed to post QA report on PR #${prNumber}: ${error instanceof Error ? error.message : error}`);
+      }
     }
+
+    // 6. Set outputs, create workflow summary and determine if we should fail
+    await reportResults(results, inputs, checkRunId);
   } catch (error) {
     if (error instanceof Error) {
       core.setFailed(error.message);
@@ -172,122 +243,81 @@ async function run(): Promise<void> {
 }
 
 /**
- * Process a single issue: analyze, test, comment, manage state
+ * Set outputs, write the workflow summary, complete the Check Run and fail the action if every issue hit a system error
+ * @param checkRunId Check Run started for this run, if any
  */
-async function processIssue(
-  issue: LinkedIssue,
-  inputs: ReturnType<typeof parseInputs>,
-  results: ActionResults,
-  prContext: PRContext | null
-): Promise<void> {
-  const result: IssueTestResult = {
-    issueNumber: issue.number,
-    status: 'skipped',
-    passed: false,
-  };
-
-  try {
-    core.info(`\n--- Processing issue #${issue.number}: ${issue.title} ---`);
-
-    // Analyze the issue with AI (pass preset URL and repo context if provided)
-    core.info(`Analyzing issue #${issue.number}...`);
-    const analysis = await analyzeIssue(
-      inputs.apiKey,
-      inputs.apiUrl,
-      issue,
-      inputs.testUrl || undefined,
-      inputs.githubRepo
-    );
-    result.analysis = analysis;
-
-    // Check if testable
-    if (!analysis.isTestable) {
-      core.info(`Issue #${issue.number} is not testable: ${analysis.reason}`);
-      result.status = 'skipped';
-      result.skipReason = analysis.reason || 'Not testable by human';
-      results.skippedIssues.push(issue.number);
-      results.results.push(result);
-      return;
-    }
-
-    // Determine test URL: manual override takes precedence
-    const testUrl = inputs.testUrl || analysis.testUrl;
-
-    if (!testUrl) {
-      core.info(`Issue #${issue.number}: No testable URL found`);
-      result.status = 'skipped';
-      result.skipReason = 'No testable URL found in issue (provide test-url input to override)';
-      results.skippedIssues.push(issue.number);
-      results.results.push(result);
-      return;
-    }
-
-    if (inputs.testUrl) {
-      core.info(`Issue #${issue.number}: Using manual URL override: ${inputs.testUrl}`);
-    }
-
-    // Update analysis.testUrl for downstream use (runQATest, comments)
-    analysis.testUrl = testUrl;
-
-    core.info(`Issue #${issue.number}: Testing ${analysis.testUrl}`);
-    core.info(`Instructions: ${analysis.testInstructions.substring(0, 100)}...`);
-
-    // Run the QA test
-    core.info(`Running QA test for issue #${issue.number}...`);
-    const testResult = await runQATest(
-      inputs.apiKey,
-      inputs.apiUrl,
-      analysis,
-      inputs.targetDurationMinutes,
-      issue,
-      prContext,
-      inputs.githubRepo
-    );
-    result.testResult = testResult;
-    result.status = 'tested';
-    result.passed = testResult.result?.success ?? false;
+async function reportResults(results: ActionResults, inputs: ParsedInputs, checkRunId: number | null = null): Promise<void> {
+  setOutputs(results);
+  await createSummary(results, inputs);
+  await finishCheckRun(inputs, checkRunId, results);
+
+  // Only fail if ALL tests had system errors (not test failures)
+  const systemErrors = results.results.filter((r) => r.status === 'error');
+  if (systemErrors.length > 0 && systemErrors.length === results.results.length) {
+    core.setFailed('All tests failed due to system errors');
+  }
+}
 
-    // Track cost
-    if (testResult.costUsd) {
-      results.totalCostUsd += testResult.costUsd;
-    }
+/**
+ * Set outputs and, so a required check doesn't block commits without issues to test, publish a neutral Check Run
+ */
+async function reportNothingToTest(results: ActionResults, inputs: ParsedInputs, commitSha: string): Promise<void> {
+  setOutputs(results);
+  await finishCheckRun(inputs, await startCheckRun(inputs, commitSha, 0), results);
+}
 
-    // Post comment to issue
-    core.info(`Posting results to issue #${issue.number}...`);
-    await postTestResultComment(inputs.githubToken, issue.number, testResult, analysis);
+/**
+ * Create an in-progress Check Run if enabled (never in a dry run)
+ * @returns The check run ID, or null if disabled or creation failed (e.g. missing checks: write permission)
+ */
+async function startCheckRun(inputs: ParsedInputs, commitSha: string, issueCount: number): Promise<number | null> {
+  if (!inputs.checkRun || inputs.dryRun) return null;
 
-    // Manage issue state based on test result
-    if (result.passed) {
-      core.info(`Issue #${issue.number}: Test PASSED`);
-      results.passedIssues.push(issue.number);
+  try {
+    return await createCheckRun(inputs.githubToken, inputs.checkName, commitSha, issueCount);
+  } catch (error) {
+    core.warning(`Failed to create check run: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
 
-      // Ensure issue is closed and remove failure label
-      await ensureIssueClosed(inputs.githubToken, issue.number);
-      if (inputs.removeFailureLabelOnSuccess && inputs.failureLabel) {
-        await removeLabel(inputs.githubToken, issue.number, inputs.failureLabel);
-      }
-    } else {
-      core.info(`Issue #${issue.number}: Test FAILED`);
-      results.failedIssues.push(issue.number);
+/**
+ * Complete a Check Run started by startCheckRun, tolerating failures.
+ * In dispatch mode, a check with pending jobs stays in progress for the collect run that gets their verdicts.
+ */
+async function finishCheckRun(inputs: ParsedInputs, checkRunId: number | null, results: ActionResults): Promise<void> {
+  if (checkRunId === null) return;
 
-      // Reopen issue and add failure label
-      if (inputs.reopenOnFailure) {
-        await reopenIssue(inputs.githubToken, issue.number);
-      }
-      if (inputs.failureLabel) {
-        await addLabel(inputs.githubToken, issue.number, inputs.failureLabel);
-      }
+  try {
+    if (inputs.mode === 'dispatch' && results.pendingJobs.length > 0) {
+      if (await updatePendingCheckRun(inputs.githubToken, checkRunId, results)) return;
     }
-
-    results.testedIssues.push(issue.number);
-    results.results.push(result);
+    await completeCheckRun(inputs.githubToken, checkRunId, results);
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    core.warning(`Error processing issue #${issue.number}: ${errorMessage}`);
+    core.warning(`Failed to complete check run ${checkRunId}: ${error instanceof Error ? error.message : error}`);
+  }
+}
 
-    result.status = 'error';
-    result.error = errorMessage;
-    results.results.push(result);
+/**
+ * Post the test plan of each analyzed issue as a preview comment, tolerating failures
+ * @param issues Processed issues, in the same order as their results
+ */
+async function postPlanPreviews(
+  issues: LinkedIssue[],
+  results: IssueTestResult[],
+  inputs: ParsedInputs,
+  commitSha: string
+): Promise<void> {
+  for (const [i, result] of results.entries()) {
+    if (!result.analysis) continue;
+
+    try {
+      await postPlanPreviewComment(inputs.githubToken, issues[i], buildPlanPreviewComment(result, commitSha));
+    } catch (error) {
+      core.warning(
+        `Failed to post test plan preview on issue ${formatIssueRef(issues[i])}: ${error instanceof Error ? error.message : error}`
+      );
+    }
   }
 }
 
@@ -299,17 +329,22 @@ function setOutputs(results: ActionResults): void {
   core.setOutput('passed-issues', JSON.stringify(results.passedIssues));
   core.setOutput('failed-issues', JSON.stringify(results.failedIssues));
   core.setOutput('skipped-issues', JSON.stringify(results.skippedIssues));
+  core.setOutput('budget-skipped-issues', JSON.stringify(results.budgetSkippedIssues));
+  core.setOutput('inconclusive-issues', JSON.stringify(results.inconclusiveIssues));
+  core.setOutput('planned-issues', JSON.stringify(results.plannedIssues));
+  core.setOutput('pending-jobs', JSON.stringify(results.pendingJobs));
   core.setOutput('total-cost-usd', results.totalCostUsd.toFixed(4));
   core.setOutput('results', JSON.stringify(results.results));
 }
 
 /**
- * Create a workflow summary
+ * Create a workflow summary (in a dry run, with the test plan of each analyzed issue)
  */
-async function createSummary(results: ActionResults): Promise<void> {
+async function createSummary(results: ActionResults, inputs: ParsedInputs): Promise<void> {
   const summary = core.summary;
+  const { maxTotalCostUsd } = inputs;
 
-  summary.addHeading('Issue Test Results', 2);
+  summary.addHeading(inputs.dryRun ? 'Issue Test Plan (Dry Run)' : 'Issue Test Results', 2);
 
   // Overview table
   summary.addTable([
@@ -320,8 +355,17 @@ async function createSummary(results: ActionResults): Promise<void> {
     ['Tested', String(results.testedIssues.length)],
     ['Passed', String(results.passedIssues.length)],
     ['Failed', String(results.failedIssues.length)],
+    ['Inconclusive', String(results.inconclusiveIssues.length)],
+    ...(inputs.dryRun ? [['Would be tested', String(results.plannedIssues.length)]] : []),
     ['Skipped', String(results.skippedIssues.length)],
-    ['Total Cost', `$${results.totalCostUsd.toFixed(4)}`],
+    ['Skipped (budget)', String(results.budgetSkippedIssues.length)],
+    ['Pending', String(results.pendingJobs.length)],
+    [
+      'Total Cost',
+      maxTotalCostUsd !== null
+        ? `$${results.totalCostUsd.toFixed(4)} of $${maxTotalCostUsd.toFixed(2)} budget`
+        : `$${results.totalCostUsd.toFixed(4)}`,
+    ],
   ]);
 
   // Details for each issue
@@ -336,17 +380,35 @@ async function createSummary(results: ActionResults): Promise<void> {
             : '\u274C'
           : result.status === 'skipped'
             ? '\u23ED\uFE0F'
-            : '\u26A0\uFE0F';
+            : result.status === 'pending'
+              ? '\u23F3'
+              : result.status === 'inconclusive'
+                ? '\u2753'
+                : result.status === 'planned'
+                  ? '\u{1F50D}'
+                  : '\u26A0\uFE0F';
 
-      summary.addRaw(`${statusEmoji} **Issue #${result.issueNumber}**: `);
+      summary.addRaw(`${statusEmoji} **Issue ${formatResultIssue(result)}**: `);
 
       if (result.status === 'tested') {
         summary.addRaw(result.passed ? 'Passed' : 'Failed');
-        if (result.testResult?.costUsd) {
-          summary.addRaw(` ($${result.testResult.costUsd.toFixed(4)})`);
+        const costUsd = resultCostUsd(result);
+        if (costUsd) {
+          const jobs = result.testers
+            ? `, ${result.testers.length} testers`
+            : result.attempts
+              ? `, ${result.attempts.length} attempts`
+              : '';
+          summary.addRaw(` ($${costUsd.toFixed(4)}${jobs})`);
         }
       } else if (result.status === 'skipped') {
         summary.addRaw(`Skipped - ${result.skipReason}`);
+      } else if (result.status === 'inconclusive') {
+        summary.addRaw(`Inconclusive - ${result.testResult ? describeInconclusive(result.testResult) : 'no verdict'}`);
+      } else if (result.status === 'pending') {
+        summary.addRaw(`Pending - job \`${result.jobId}\``);
+      } else if (result.status === 'planned') {
+        summary.addRaw(`Would be tested at ${result.analysis?.testUrl || 'N/A'}`);
       } else {
         summary.addRaw(`Error - ${result.error}`);
       }
@@ -355,6 +417,14 @@ async function createSummary(results: ActionResults): Promise<void> {
     }
   }
 
+  // Full plan for each analyzed issue
+  if (inputs.dryRun) {
+    for (const result of results.results.filter((r) => r.analysis)) {
+      summary.addHeading(`Issue ${formatResultIssue(result)}`, 3);
+      summary.addRaw(buildTestPlan(result), true);
+    }
+  }
+
   summary.addRaw('\n---\n');
   summary.addRaw('Powered by [Runhuman](https://runhuman.com)');
 
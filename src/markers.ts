@@ -0,0 +1,23 @@
+/**
+ * Build a hidden HTML marker carrying JSON data, e.g. `<!-- runhuman-job {...} -->`.
+ * "--" is escaped so free text in the data can't terminate the HTML comment early.
+ */
+export function buildMarker(name: string, data: unknown): string {
+  const json = JSON.stringify(data).replace(/--/g, '-\\u002d');
+  return `<!-- runhuman-${name} ${json} -->`;
+}
+
+/**
+ * Parse the JSON data of the first marker with the given name
+ * @returns The parsed data, or null if the marker is missing or malformed
+ */
+export function parseMarker(body: string, name: string): unknown {
+  const match = body.match(new RegExp(`<!-- runhuman-${name} (.*?) -->`));
+  if (!match) return null;
+
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,743 @@
+import * as core from '@actions/core';
+import { postTestResultComment, postReviewComment, postIssueComment } from './github/issue-commenter';
+import { findIssueFixer } from './github/issue-fixer';
+import { hasLabel } from './github/linked-issues';
+import { findApprovalRequest, findApprover, postApprovalRequest } from './github/approvals';
+import { isAuthorCollaborator } from './github/permissions';
+import { reopenIssue, addLabel, removeLabel, ensureIssueClosed } from './github/issue-manager';
+import { findJobRecords, recordJob, type JobRecord } from './github/job-records';
+import { formatIssueRef, isInCurrentRepo, resultRepository } from './github/issue-ref';
+import { joinDeploymentUrl } from './github/deployments';
+import { parseIssueConfig, applyIssueConfig, type IssueTestConfig } from './issue-config';
+import { resolveIssueSettings } from './repo-config';
+import { analyzeIssue } from './api/analyze-issue';
+import { startQATest, waitForQATestResult, defaultMaxWaitMinutes, type PollingOptions } from './api/run-test';
+import { estimateTestCost, type CostBudget } from './budget';
+import { decideConsensus, describeConsensus, combineTesterResults } from './consensus';
+import { formatResultIssue, isInconclusive, describeInconclusive, toJobAttempt } from './results';
+import { buildReviewComment } from './templates/test-plan';
+import { hasRequestedIssues } from './requested-issues';
+import type { Lock } from './concurrency';
+import type {
+  AnalyzeIssueResponse,
+  Consensus,
+  IssueRef,
+  IssueTestResult,
+  JobAttempt,
+  LinkedIssue,
+  ParsedInputs,
+  PlannedTest,
+  PRContext,
+  QATestResponse,
+  TesterResult,
+} from './types';
+
+// Job states where no tester finished the test, so a new job may get a verdict
+const REDISPATCH_STATES = ['abandoned', 'incomplete'];
+
+const AWAITING_APPROVAL_REASON = 'Awaiting approval: a user with write access must react with \u{1F44D} to the proposed test';
+
+/**
+ * Where a test result came from, for the result comment
+ */
+export interface ResultSource {
+  /** Commit SHA that was tested */
+  commitSha: string;
+  /** PR that fixed the issue, if any */
+  prContext: PRContext | null;
+  /** Every job of the test in order, when there was more than one */
+  attempts?: JobAttempt[];
+  /** Each tester's outcome, when several tested the issue */
+  testers?: TesterResult[];
+  /** How the testers' verdicts were combined */
+  consensus?: Consensus;
+}
+
+/**
+ * What an issue's jobs are created from
+ */
+interface TestPlan {
+  /** Issue as the tester sees it (runhuman block removed) */
+  issue: LinkedIssue;
+  analysis: AnalyzeIssueResponse;
+  targetDurationMinutes: number;
+  /** Estimated cost of one job, reserved from the budget while it runs */
+  estimatedCostUsd: number;
+}
+
+/**
+ * A tester's job that is running (or was recorded by an earlier run)
+ */
+interface StartedJob {
+  /** Which of the issue's testers the job belongs to (1-based) */
+  tester: number;
+  jobId: string;
+  /** When the job was created (epoch ms) */
+  startedAt: number;
+  /** Jobs of this tester that the job replaced */
+  earlierAttempts: JobAttempt[];
+  /** Whether this run reserved the job's estimated cost (recorded jobs were paid for by an earlier run) */
+  reserved: boolean;
+}
+
+/**
+ * State shared by all issues processed in one run
+ */
+export interface RunContext {
+  /** Commit under test (the PR head in pre-merge mode) */
+  commitSha: string;
+  /** PR that fixed (or, in pre-merge mode, will fix) the issues, if any */
+  prContext: PRContext | null;
+  /** URL of the tested commit's deployment, used as the base for AI-suggested URLs */
+  deploymentUrl: string | null;
+  /** Lock so comments, labels and state changes of concurrently processed issues don't interleave */
+  githubLock: Lock;
+  /** Spend tracker shared across concurrently processed issues */
+  budget: CostBudget;
+  /** Settings from a /runhuman test command, over the issue's runhuman block; a command always starts new jobs */
+  overrides?: IssueTestConfig;
+  /** Check Run of a dispatch run, recorded with each job so a collect run can complete it */
+  checkRunId?: number | null;
+}
+
+/**
+ * Process a single issue: analyze, test, comment, manage state.
+ * In dispatch mode, stops once the job is created and recorded on the issue.
+ * In pre-merge mode, only tests: the issue is left untouched and results are reported on the PR.
+ * In a dry run, stops after the analysis: the issue is left untouched and nothing is paid for.
+ */
+export async function processIssue(issue: LinkedIssue, inputs: ParsedInputs, run: RunContext): Promise<IssueTestResult> {
+  const { prContext, deploymentUrl, githubLock, budget } = run;
+  const preMerge = inputs.mode === 'pre-merge';
+  const result: IssueTestResult = {
+    issueNumber: issue.number,
+    repository: resultRepository(issue),
+    status: 'skipped',
+    passed: false,
+  };
+
+  try {
+    core.info(`\n--- Processing issue ${formatIssueRef(issue)}: ${issue.title} ---`);
+
+    // Per-issue settings from a runhuman block; the block itself is hidden from the AI and the tester
+    const parsed = parseIssueConfig(issue.body);
+    for (const warning of parsed.warnings) {
+      core.warning(`Issue ${formatIssueRef(issue)}: ${warning}`);
+    }
+    const { body } = parsed;
+    const config: IssueTestConfig = { ...parsed.config, ...run.overrides };
+    const testedIssue: LinkedIssue = { ...issue, body };
+    const settings = resolveIssueSettings(issue, inputs);
+
+    if (config.skip) {
+      core.info(`Issue ${formatIssueRef(issue)}: Skipped by its runhuman block`);
+      result.skipReason = config.skipReason ?? 'Skipped by runhuman block in issue';
+      return result;
+    }
+
+    // Collect runs only find pending issues in the workflow's repository, so a job dispatched elsewhere would never be collected
+    if (inputs.mode === 'dispatch' && !isInCurrentRepo(issue)) {
+      core.info(`Issue ${formatIssueRef(issue)}: Skipped, dispatch mode only tests issues in the workflow's repository`);
+      result.skipReason = 'Issues in other repositories are not supported in dispatch mode (use mode: full)';
+      return result;
+    }
+
+    // Reattach to jobs an earlier run started for this commit (e.g. a workflow re-run); regression runs always retest
+    const recordedJobs =
+      preMerge || inputs.dryRun || run.overrides || inputs.mode === 'regression'
+        ? new Map<number, JobRecord>()
+        : await findRecordedJobs(inputs.githubToken, issue, run.commitSha);
+    const reattaching = recordedJobs.size > 0;
+
+    // With require-approval, an auto-detected issue is only tested once a maintainer approved a proposed test
+    const requested = hasRequestedIssues(inputs) || inputs.mode === 'regression' || hasLabel(issue, settings.qaLabel);
+    const needsApproval = inputs.requireApproval && !requested && !reattaching;
+    const approval =
+      needsApproval && !preMerge && !inputs.dryRun
+        ? await findApprovalRequest(inputs.githubToken, issue, run.commitSha)
+        : null;
+    if (approval) {
+      const approver = await findApprover(inputs.githubToken, issue, approval.commentId);
+      if (!approver) {
+        core.info(`Issue ${formatIssueRef(issue)}: Proposed test is still awaiting approval`);
+        result.analysis = approval.request.analysis;
+        result.skipReason = AWAITING_APPROVAL_REASON;
+        return result;
+      }
+      core.info(`Issue ${formatIssueRef(issue)}: Proposed test approved by @${approver}`);
+    }
+
+    // An approved test runs as proposed, whatever the issue's runhuman block says now
+    const targetDurationMinutes = approval
+      ? approval.request.plannedTest.targetDurationMinutes
+      : (config.targetDurationMinutes ?? settings.targetDurationMinutes);
+
+    // Pre-flight cost checks (skip before spending time on analysis); the issue's cost covers all of its testers
+    const estimatedCostUsd = estimateTestCost(targetDurationMinutes);
+    const budgetSkipReason = reattaching
+      ? null
+      : checkBudget(estimatedCostUsd * inputs.testersPerIssue, inputs.maxCostUsd, budget);
+    if (budgetSkipReason) {
+      return skipForBudget(result, budgetSkipReason);
+    }
+
+    // Analyze the issue with AI (pass preset URL and repo context if provided), unless a proposed test was approved
+    if (!approval) {
+      core.info(`Analyzing issue ${formatIssueRef(issue)}...`);
+    }
+    const analysis = approval
+      ? approval.request.analysis
+      : applyIssueConfig(
+          await analyzeIssue(
+            inputs.apiKey,
+            inputs.apiUrl,
+            testedIssue,
+            config.testUrl || settings.testUrl || deploymentUrl || undefined,
+            inputs.githubRepo,
+            { maxAttempts: inputs.apiMaxAttempts }
+          ),
+          config
+        );
+    result.analysis = analysis;
+
+    // Check if testable (a recorded job is already paid for, so its result is always collected;
+    // "skip: false" in the issue's runhuman block overrides the AI, unless outsiders can edit the issue body)
+    const forcedByIssue =
+      !analysis.isTestable && config.skip === false && (await isAuthorCollaborator(inputs.githubToken, issue));
+    if (!analysis.isTestable && config.skip === false && !forcedByIssue) {
+      core.info(`Issue ${formatIssueRef(issue)}: Ignoring "skip: false", the issue's author has no write access`);
+    }
+    if (!analysis.isTestable && !reattaching && !forcedByIssue) {
+      core.info(`Issue ${formatIssueRef(issue)} is not testable: ${analysis.reason}`);
+      result.status = 'skipped';
+      result.skipReason = analysis.reason || 'Not testable by human';
+      return result;
+    }
+
+    // Determine test URL: the approved proposal's, else the issue's runhuman block, then the manual override
+    // (or config rule), then the deployment (keeping the AI-suggested path)
+    const testUrl = approval
+      ? analysis.testUrl
+      : config.testUrl ||
+        settings.testUrl ||
+        (deploymentUrl ? joinDeploymentUrl(deploymentUrl, analysis.testUrl) : analysis.testUrl);
+
+    if (!testUrl && !reattaching) {
+      core.info(`Issue ${formatIssueRef(issue)}: No testable URL found`);
+      result.status = 'skipped';
+      result.skipReason = 'No testable URL found in issue or deployments (provide test-url or environment input)';
+      return result;
+    }
+
+    if (approval) {
+      core.info(`Issue ${formatIssueRef(issue)}: Using URL of the approved proposal`);
+    } else if (config.testUrl) {
+      const source = run.overrides?.testUrl ? '/runhuman command' : 'runhuman block';
+      core.info(`Issue ${formatIssueRef(issue)}: Using URL from ${source}: ${config.testUrl}`);
+    } else if (settings.testUrl) {
+      core.info(`Issue ${formatIssueRef(issue)}: Using manual URL override: ${settings.testUrl}`);
+    }
+
+    // Update analysis.testUrl for downstream use (startQATest, comments)
+    analysis.testUrl = testUrl;
+
+    core.info(`Issue ${formatIssueRef(issue)}: Testing ${analysis.testUrl}`);
+    core.info(`Instructions: ${analysis.testInstructions.substring(0, 100)}...`);
+
+    const plannedTest: PlannedTest = {
+      targetDurationMinutes,
+      testers: inputs.testersPerIssue,
+      estimatedCostUsd: estimatedCostUsd * inputs.testersPerIssue,
+    };
+
+    // Low-confidence analysis: skip auto-detected issues, hold requested ones until a maintainer approves
+    // (the approval label or a recorded job let the test run; settings in the issue body never do)
+    const approved = hasLabel(issue, inputs.approvalLabel);
+    if (analysis.confidence < inputs.minConfidence && !approved && !reattaching) {
+      return await skipForLowConfidence(result, issue, analysis, plannedTest, requested, inputs, run);
+    }
+    if (analysis.confidence < inputs.minConfidence && approved) {
+      core.info(`Issue ${formatIssueRef(issue)}: Low-confidence analysis approved with the "${inputs.approvalLabel}" label`);
+    }
+
+    if (needsApproval && !approval) {
+      return await requestApproval(result, issue, analysis, plannedTest, inputs, run);
+    }
+
+    // Dry run: stop before paying for anything
+    if (inputs.dryRun) {
+      result.status = 'planned';
+      result.plannedTest = plannedTest;
+      core.info(`Issue ${formatIssueRef(issue)}: Dry run, would be tested (no job created)`);
+      return result;
+    }
+
+    // Create a job per tester unless an earlier run already did
+    const plan: TestPlan = { issue: testedIssue, analysis, targetDurationMinutes, estimatedCostUsd };
+    const jobs: StartedJob[] = [];
+    for (let tester = 1; tester <= inputs.testersPerIssue; tester++) {
+      const recorded = recordedJobs.get(tester);
+      if (recorded) {
+        core.info(`${formatTester(issue, tester, inputs)}: Reattaching to job ${recorded.jobId} started ${recorded.createdAt}`);
+        jobs.push({
+          tester,
+          jobId: recorded.jobId,
+          startedAt: Date.parse(recorded.createdAt) || Date.now(),
+          earlierAttempts: recorded.attempts ?? [],
+          reserved: false,
+        });
+        continue;
+      }
+
+      const jobId = await dispatchJob(plan, inputs, run, tester);
+      if (!jobId) break;
+      jobs.push({ tester, jobId, startedAt: Date.now(), earlierAttempts: [], reserved: true });
+    }
+
+    if (jobs.length === 0) {
+      return skipForBudget(result, checkBudget(estimatedCostUsd, inputs.maxCostUsd, budget) ?? 'Budget exhausted');
+    }
+    if (jobs.length < inputs.testersPerIssue) {
+      core.warning(
+        `Issue ${formatIssueRef(issue)}: Budget allows only ${jobs.length} of ${inputs.testersPerIssue} testers`
+      );
+    }
+
+    // Jobs were created, so earlier review and approval requests are settled (and an approval covers one test only)
+    for (const label of [inputs.needsReviewLabel, inputs.approvalLabel, inputs.awaitingApprovalLabel]) {
+      if (!preMerge && hasLabel(issue, label)) {
+        await githubLock(() => removeLabel(inputs.githubToken, issue, label));
+      }
+    }
+
+    if (inputs.mode === 'dispatch') {
+      // Leave the result to a later collect run, which finds the issue by its pending label
+      const [{ jobId }] = jobs;
+      await githubLock(() => addLabel(inputs.githubToken, issue, inputs.pendingLabel));
+      core.info(`Issue ${formatIssueRef(issue)}: Dispatched job ${jobId} (results will be collected later)`);
+      result.status = 'pending';
+      result.jobId = jobId;
+      return result;
+    }
+
+    const testers = await Promise.all(jobs.map((job) => waitForTester(job, plan, inputs, run)));
+
+    if (testers.length === 1) {
+      const [tester] = testers;
+      result.testResult = tester.testResult;
+      if (tester.attempts.length > 1) {
+        result.attempts = tester.attempts;
+      }
+    } else {
+      const consensus = decideConsensus(testers.map((tester) => tester.testResult), inputs.consensus);
+      core.info(`Issue ${formatIssueRef(issue)}: ${describeConsensus(consensus)}`);
+      result.testers = testers;
+      result.consensus = consensus;
+      result.testResult = combineTesterResults(testers, consensus);
+      result.attempts = testers.flatMap((tester) => tester.attempts);
+    }
+
+    const testResult = result.testResult;
+    if (isInconclusive(testResult)) {
+      result.status = 'inconclusive';
+    } else {
+      result.status = 'tested';
+      result.passed = testResult.result?.success ?? false;
+    }
+
+    if (preMerge) {
+      core.info(`Issue ${formatIssueRef(issue)}: Test ${formatVerdict(result)} (reported on the PR)`);
+      return result;
+    }
+
+    await githubLock(() =>
+      applyTestResult(issue, testResult, analysis, inputs, {
+        commitSha: run.commitSha,
+        prContext,
+        attempts: result.attempts,
+        testers: result.testers,
+        consensus: result.consensus,
+      })
+    );
+
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.warning(`Error processing issue ${formatIssueRef(issue)}: ${errorMessage}`);
+
+    result.status = 'error';
+    result.error = errorMessage;
+    return result;
+  }
+}
+
+/**
+ * Post the result comment and update the issue's state and labels.
+ * Callers running issues concurrently must hold the shared GitHub lock.
+ */
+export async function applyTestResult(
+  issue: LinkedIssue,
+  testResult: QATestResponse,
+  analysis: AnalyzeIssueResponse,
+  inputs: ParsedInputs,
+  source: ResultSource
+): Promise<void> {
+  const passed = testResult.result?.success ?? false;
+  const { failureLabel, reopenOnFailure } = resolveIssueSettings(issue, inputs);
+  const inconclusive = isInconclusive(testResult);
+
+  if (inconclusive && inputs.inconclusivePolicy === 'ignore') {
+    core.info(`Issue ${formatIssueRef(issue)}: Test INCONCLUSIVE (${describeInconclusive(testResult)}), leaving the issue untouched`);
+    return;
+  }
+
+  // Post comment to issue
+  core.info(`Posting results to issue ${formatIssueRef(issue)}...`);
+  await postTestResultComment(inputs.githubToken, testResult, analysis, {
+    commitSha: source.commitSha,
+    sticky: inputs.stickyComment,
+    template: inputs.commentTemplate,
+    issue,
+    prContext: source.prContext,
+    attempts: source.attempts,
+    testers: source.testers,
+    consensus: source.consensus,
+  });
+
+  // Manage issue state based on test result; without a verdict the issue's state is left as is
+  if (inconclusive) {
+    core.info(`Issue ${formatIssueRef(issue)}: Test INCONCLUSIVE (${describeInconclusive(testResult)})`);
+
+    if (inputs.inconclusiveLabel) {
+      await addLabel(inputs.githubToken, issue, inputs.inconclusiveLabel);
+    }
+    return;
+  }
+
+  if (inputs.inconclusiveLabel) {
+    await removeLabel(inputs.githubToken, issue, inputs.inconclusiveLabel);
+  }
+
+  if (passed) {
+    core.info(`Issue ${formatIssueRef(issue)}: Test PASSED`);
+
+    // Ensure issue is closed and remove failure label
+    await ensureIssueClosed(inputs.githubToken, issue);
+    if (inputs.removeFailureLabelOnSuccess && failureLabel) {
+      await removeLabel(inputs.githubToken, issue, failureLabel);
+    }
+  } else {
+    core.info(`Issue ${formatIssueRef(issue)}: Test FAILED`);
+
+    // Reopen issue and add failure label; a failed regression test always reopens and tells the fixer
+    if (reopenOnFailure || inputs.mode === 'regression') {
+      await reopenIssue(inputs.githubToken, issue);
+    }
+    if (failureLabel) {
+      await addLabel(inputs.githubToken, issue, failureLabel);
+    }
+    if (inputs.mode === 'regression') {
+      await mentionFixer(inputs.githubToken, issue);
+    }
+  }
+}
+
+/**
+ * Tell whoever fixed an issue that it failed a regression test, tolerating failures
+ */
+async function mentionFixer(githubToken: string, issue: LinkedIssue): Promise<void> {
+  try {
+    const fixer = await findIssueFixer(githubToken, issue);
+    const fixedIn = fixer?.prNumber ? ` in #${fixer.prNumber}` : '';
+    const mention = fixer ? `@${fixer.login} this issue, fixed${fixedIn},` : 'This issue';
+
+    await postIssueComment(
+      githubToken,
+      issue,
+      `\u{1F501} ${mention} failed a scheduled regression test and was reopened. See the test result above.`
+    );
+  } catch (error) {
+    core.warning(
+      `Failed to notify the fixer of issue ${formatIssueRef(issue)}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Decide whether a finished job should be replaced by a new one: abandoned and incomplete jobs are
+ * re-dispatched up to max-attempts, and inconclusive-policy "retry" allows one more job for any inconclusive result
+ * @param attemptCount Jobs created for the test so far
+ */
+export function shouldRedispatch(testResult: QATestResponse, attemptCount: number, inputs: ParsedInputs): boolean {
+  if (!isInconclusive(testResult)) return false;
+
+  if (REDISPATCH_STATES.includes(testResult.status) && attemptCount < inputs.maxAttempts) {
+    return true;
+  }
+
+  return inputs.inconclusivePolicy === 'retry' && attemptCount < inputs.maxAttempts + 1;
+}
+
+/**
+ * Format a result's verdict for logs
+ */
+function formatVerdict(result: IssueTestResult): string {
+  if (result.status === 'inconclusive') return 'INCONCLUSIVE';
+  return result.passed ? 'PASSED' : 'FAILED';
+}
+
+/**
+ * Build the polling configuration for a test of the given target duration
+ */
+function getPollingOptions(inputs: ParsedInputs, targetDurationMinutes: number): PollingOptions {
+  const maxWaitMinutes = inputs.maxWaitMinutes ?? defaultMaxWaitMinutes(targetDurationMinutes);
+
+  return {
+    initialIntervalMs: inputs.pollIntervalSeconds * 1000,
+    backoffMultiplier: inputs.pollBackoffMultiplier,
+    maxIntervalMs: inputs.pollMaxIntervalSeconds * 1000,
+    maxWaitMs: maxWaitMinutes * 60 * 1000,
+    targetDurationMs: targetDurationMinutes * 60 * 1000,
+  };
+}
+
+/**
+ * Look up the jobs recorded on the issue for a commit
+ * @returns The latest recorded job of each tester (empty if none were found or the lookup failed)
+ */
+async function findRecordedJobs(githubToken: string, issue: IssueRef, commitSha: string): Promise<Map<number, JobRecord>> {
+  const latest = new Map<number, JobRecord>();
+
+  try {
+    // Records are newest first, so the first one of each tester is its current job
+    for (const record of await findJobRecords(githubToken, issue, commitSha)) {
+      const tester = record.tester ?? 1;
+      if (!latest.has(tester)) {
+        latest.set(tester, record);
+      }
+    }
+  } catch (error) {
+    core.warning(
+      `Failed to look up recorded jobs on issue ${formatIssueRef(issue)}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  return latest;
+}
+
+/**
+ * Wait for a tester's job, replacing it with a new job while it ends without a verdict (see shouldRedispatch)
+ */
+async function waitForTester(job: StartedJob, plan: TestPlan, inputs: ParsedInputs, run: RunContext): Promise<TesterResult> {
+  const polling = getPollingOptions(inputs, plan.targetDurationMinutes);
+  const retry = { maxAttempts: inputs.apiMaxAttempts };
+
+  let jobId = job.jobId;
+  let testResult = await waitForQATestResult(inputs.apiKey, inputs.apiUrl, jobId, polling, job.startedAt, retry);
+  if (job.reserved) {
+    run.budget.settle(plan.estimatedCostUsd, testResult.costUsd ?? 0);
+  }
+  const attempts = [...job.earlierAttempts, toJobAttempt(jobId, testResult)];
+
+  // A tester walking away says nothing about the fix, so try again with a new job
+  while (shouldRedispatch(testResult, attempts.length, inputs)) {
+    core.info(
+      `${formatTester(plan.issue, job.tester, inputs)}: ${describeInconclusive(testResult)}, ` +
+        `dispatching attempt ${attempts.length + 1} with a new job`
+    );
+    const retryJobId = await dispatchJob(plan, inputs, run, job.tester, attempts);
+    if (!retryJobId) {
+      core.info(`${formatTester(plan.issue, job.tester, inputs)}: Budget does not allow another attempt`);
+      break;
+    }
+
+    jobId = retryJobId;
+    testResult = await waitForQATestResult(inputs.apiKey, inputs.apiUrl, jobId, polling, Date.now(), retry);
+    run.budget.settle(plan.estimatedCostUsd, testResult.costUsd ?? 0);
+    attempts.push(toJobAttempt(jobId, testResult));
+  }
+
+  return { jobId, testResult, attempts };
+}
+
+/**
+ * Name an issue's tester in logs: "Issue #12", or "Issue #12 (tester 2)" when several test it
+ */
+function formatTester(issue: IssueRef, tester: number, inputs: ParsedInputs): string {
+  return `Issue ${formatIssueRef(issue)}${inputs.testersPerIssue > 1 ? ` (tester ${tester})` : ''}`;
+}
+
+/**
+ * Reserve the estimated cost, create a tester's job and record it on the issue (except in pre-merge mode, which leaves issues untouched)
+ * @param tester Which of the issue's testers the job is for (1-based)
+ * @param earlierAttempts Jobs this one replaces, recorded so a later run can continue the attempt history
+ * @returns The job ID, or null if the budget no longer allows the test
+ */
+async function dispatchJob(
+  plan: TestPlan,
+  inputs: ParsedInputs,
+  run: RunContext,
+  tester: number,
+  earlierAttempts: JobAttempt[] = []
+): Promise<string | null> {
+  const { issue, analysis, targetDurationMinutes, estimatedCostUsd } = plan;
+  const { prContext } = run;
+
+  // Reserve the estimated cost; other issues may have used up the budget while this one was analyzed
+  if (!run.budget.reserve(estimatedCostUsd)) {
+    return null;
+  }
+
+  core.info(`${formatTester(issue, tester, inputs)}: Running QA test (estimated cost $${estimatedCostUsd.toFixed(4)})...`);
+  const jobId = await startQATest(
+    inputs.apiKey,
+    inputs.apiUrl,
+    analysis,
+    targetDurationMinutes,
+    issue,
+    prContext,
+    inputs.githubRepo,
+    { maxAttempts: inputs.apiMaxAttempts }
+  );
+
+  if (inputs.mode === 'pre-merge') {
+    return jobId;
+  }
+
+  await run.githubLock(() =>
+    recordStartedJob(inputs.githubToken, issue, {
+      jobId,
+      commitSha: run.commitSha,
+      createdAt: new Date().toISOString(),
+      analysis,
+      prNumber: prContext?.number,
+      targetDurationMinutes,
+      attempts: earlierAttempts.length > 0 ? earlierAttempts : undefined,
+      tester: inputs.testersPerIssue > 1 ? tester : undefined,
+      checkRunId: run.checkRunId ?? undefined,
+    })
+  );
+
+  return jobId;
+}
+
+/**
+ * Record a newly created job on the issue so a re-run or collect run can pick it up instead of paying for a duplicate.
+ * Failures are logged but don't abort the test, since the job is already running.
+ */
+async function recordStartedJob(githubToken: string, issue: IssueRef, record: JobRecord): Promise<void> {
+  try {
+    await recordJob(githubToken, issue, record);
+  } catch (error) {
+    core.warning(
+      `Failed to record job ${record.jobId} on issue ${formatIssueRef(issue)}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Check an estimated test cost against the per-issue limit and the remaining total budget
+ * @returns The skip reason if the test should not run, or null if it fits
+ */
+export function checkBudget(estimatedCostUsd: number, maxCostUsd: number | null, budget: CostBudget): string | null {
+  if (maxCostUsd !== null && estimatedCostUsd > maxCostUsd) {
+    return `Budget: estimated cost $${estimatedCostUsd.toFixed(4)} exceeds max-cost-usd ($${maxCostUsd.toFixed(2)})`;
+  }
+
+  if (!budget.canAfford(estimatedCostUsd)) {
+    return (
+      `Budget: max-total-cost-usd ($${budget.limitUsd?.toFixed(2)}) reached ` +
+      `($${budget.committedUsd().toFixed(4)} committed, $${estimatedCostUsd.toFixed(4)} estimated for this test)`
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Skip an issue whose analysis is below min-confidence. A requested issue (QA label or issue-number) gets the
+ * proposed test in a review comment and the needs-review label, except in pre-merge mode and dry runs.
+ */
+async function skipForLowConfidence(
+  result: IssueTestResult,
+  issue: LinkedIssue,
+  analysis: AnalyzeIssueResponse,
+  plannedTest: PlannedTest,
+  requested: boolean,
+  inputs: ParsedInputs,
+  run: RunContext
+): Promise<IssueTestResult> {
+  const confidence = `${(analysis.confidence * 100).toFixed(0)}%`;
+  const threshold = `${(inputs.minConfidence * 100).toFixed(0)}%`;
+  result.status = 'skipped';
+
+  if (!requested) {
+    core.info(`Issue ${formatIssueRef(issue)}: Analysis confidence ${confidence} is below min-confidence (${threshold})`);
+    result.skipReason = `Low confidence: analysis is ${confidence} confident, below min-confidence (${threshold})`;
+    return result;
+  }
+
+  result.skipReason = `Low confidence (${confidence}): waiting for the "${inputs.approvalLabel}" label`;
+  core.info(`Issue ${formatIssueRef(issue)}: ${result.skipReason}`);
+
+  if (inputs.mode === 'pre-merge' || inputs.dryRun) {
+    return result;
+  }
+
+  await run.githubLock(async () => {
+    await postReviewComment(
+      inputs.githubToken,
+      issue,
+      buildReviewComment(analysis, plannedTest, inputs.minConfidence, inputs.approvalLabel)
+    );
+    await addLabel(inputs.githubToken, issue, inputs.needsReviewLabel);
+  });
+
+  return result;
+}
+
+/**
+ * Propose the test of an auto-detected issue in a comment and label the issue until it is approved,
+ * except in pre-merge mode and dry runs, which only report the issue as skipped
+ */
+async function requestApproval(
+  result: IssueTestResult,
+  issue: LinkedIssue,
+  analysis: AnalyzeIssueResponse,
+  plannedTest: PlannedTest,
+  inputs: ParsedInputs,
+  run: RunContext
+): Promise<IssueTestResult> {
+  result.status = 'skipped';
+  result.skipReason = AWAITING_APPROVAL_REASON;
+
+  if (inputs.mode === 'pre-merge' || inputs.dryRun) {
+    core.info(`Issue ${formatIssueRef(issue)}: Auto-detected, would need approval before testing`);
+    return result;
+  }
+
+  await run.githubLock(async () => {
+    await postApprovalRequest(inputs.githubToken, issue, {
+      commitSha: run.commitSha,
+      createdAt: new Date().toISOString(),
+      analysis,
+      plannedTest,
+      prNumber: run.prContext?.number,
+    });
+    await addLabel(inputs.githubToken, issue, inputs.awaitingApprovalLabel);
+  });
+  core.info(`Issue ${formatIssueRef(issue)}: Proposed test posted, awaiting approval`);
+
+  return result;
+}
+
+/**
+ * Mark an issue result as skipped because of a cost limit
+ */
+function skipForBudget(result: IssueTestResult, reason: string): IssueTestResult {
+  core.info(`Skipping issue ${formatResultIssue(result)}: ${reason}`);
+  result.status = 'skipped';
+  result.skipReason = reason;
+  result.budgetExceeded = true;
+  return result;
+}
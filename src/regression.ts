@@ -0,0 +1,61 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { getIssuesWithLabel, searchIssues } from './github/linked-issues';
+import { formatIssueRef, issueKey } from './github/issue-ref';
+import { findLatestResult } from './github/issue-commenter';
+import { mapWithConcurrency } from './concurrency';
+import type { LinkedIssue, ParsedInputs } from './types';
+
+// Text of the comment recording every job the action starts; unlike result comments it can't be customized,
+// so it finds every closed issue the action has tested (the verdict is then read from the result markers)
+const TESTED_ISSUE_QUERY = 'is:closed in:comments "QA test in progress"';
+
+/**
+ * Choose this run's batch of closed issues to retest (mode: regression)
+ */
+export async function selectRegressionIssues(inputs: ParsedInputs): Promise<LinkedIssue[]> {
+  const candidates = new Map<string, LinkedIssue>();
+
+  if (inputs.regressionScope !== 'passed') {
+    for (const issue of await getIssuesWithLabel(inputs.githubToken, inputs.regressionLabel, 'closed')) {
+      candidates.set(issueKey(issue), issue);
+    }
+  }
+  if (inputs.regressionScope !== 'label') {
+    for (const issue of await findPassedIssues(inputs)) {
+      candidates.set(issueKey(issue), issue);
+    }
+  }
+
+  const issues = [...candidates.values()].sort((a, b) => a.number - b.number);
+  const batch = rotateBatch(issues, inputs.regressionMaxIssues, github.context.runNumber);
+
+  core.info(`Found ${issues.length} closed issue(s) to check for regressions, retesting ${batch.length} this run`);
+  core.info(`Regression batch: ${batch.map((issue) => formatIssueRef(issue)).join(', ') || '(none)'}`);
+
+  return batch;
+}
+
+/**
+ * Find closed issues whose latest result posted by the action passed
+ */
+async function findPassedIssues(inputs: ParsedInputs): Promise<LinkedIssue[]> {
+  const tested = await searchIssues(inputs.githubToken, TESTED_ISSUE_QUERY);
+  const latest = await mapWithConcurrency(tested, inputs.maxConcurrency, (issue) =>
+    findLatestResult(inputs.githubToken, issue)
+  );
+
+  return tested.filter((_, i) => latest[i]?.verdict === 'passed');
+}
+
+/**
+ * Pick the run's window of at most `size` items, moving on by `size` each run and wrapping around,
+ * so consecutive runs cover the whole list
+ * @param runNumber The workflow's run number (1-based)
+ */
+export function rotateBatch<T>(items: T[], size: number, runNumber: number): T[] {
+  if (items.length <= size) return items;
+
+  const start = (Math.max(runNumber - 1, 0) * size) % items.length;
+  return [...items.slice(start), ...items.slice(0, start)].slice(0, size);
+}
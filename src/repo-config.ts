@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { isValidUrl } from './input-parser';
+import type { ConfigRule, ConfigSettingName, IssueSettings, LinkedIssue, ParsedInputs } from './types';
+
+export const DEFAULT_CONFIG_FILE = '.github/runhuman.yml';
+
+/**
+ * Validated contents of the repository config file
+ */
+export interface RepoConfig {
+  /** Repository-wide settings */
+  settings: Partial<IssueSettings>;
+  /** Per-issue rules, applied in order */
+  rules: ConfigRule[];
+}
+
+/**
+ * Schema of the settings the config file can set, at the top level and in rules
+ */
+const SETTING_SCHEMA: Record<
+  ConfigSettingName,
+  { key: keyof IssueSettings; expected: string; isValid: (value: unknown) => boolean }
+> = {
+  'test-url': {
+    key: 'testUrl',
+    expected: 'a valid URL (http:// or https://)',
+    isValid: (value) => typeof value === 'string' && isValidUrl(value),
+  },
+  'target-duration-minutes': {
+    key: 'targetDurationMinutes',
+    expected: 'a whole number between 1 and 60',
+    isValid: (value) => typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 60,
+  },
+  'qa-label': {
+    key: 'qaLabel',
+    expected: 'a label name',
+    isValid: (value) => typeof value === 'string' && value.trim() !== '',
+  },
+  'failure-label': {
+    key: 'failureLabel',
+    expected: 'a label name (empty to disable)',
+    isValid: (value) => typeof value === 'string',
+  },
+  'reopen-on-failure': {
+    key: 'reopenOnFailure',
+    expected: 'true or false',
+    isValid: (value) => typeof value === 'boolean',
+  },
+};
+
+export const CONFIG_SETTING_NAMES = Object.keys(SETTING_SCHEMA) as ConfigSettingName[];
+
+/**
+ * Map a config setting name to its IssueSettings key
+ */
+export function settingKey(name: ConfigSettingName): keyof IssueSettings {
+  return SETTING_SCHEMA[name].key;
+}
+
+/**
+ * Load and validate the repository config file
+ * @param configPath Path relative to the workspace (the checked-out repository)
+ * @param required Fail if the file doesn't exist (the default path is optional)
+ * @returns The config, or null if an optional file doesn't exist
+ */
+export function loadRepoConfig(configPath: string, required: boolean): RepoConfig | null {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const fullPath = path.resolve(workspace, configPath);
+
+  if (!fs.existsSync(fullPath)) {
+    if (required) {
+      throw new Error(
+        `config-file not found: ${configPath}. ` +
+          'Make sure the repository is checked out (actions/checkout) before this action runs.'
+      );
+    }
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(fs.readFileSync(fullPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors: string[] = [];
+  const config = validateRepoConfig(data ?? {}, errors);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${configPath}:\n${errors.map((e) => `- ${e}`).join('\n')}`);
+  }
+
+  return config;
+}
+
+/**
+ * Validate parsed config file contents against the schema
+ * @param errors Collects every problem found, so they can be reported together
+ */
+export function validateRepoConfig(data: unknown, errors: string[]): RepoConfig {
+  if (!isMapping(data)) {
+    errors.push('the file must be a YAML mapping of settings');
+    return { settings: {}, rules: [] };
+  }
+
+  const { rules, ...settings } = data;
+  const config: RepoConfig = { settings: validateSettings(settings, '', errors), rules: [] };
+
+  if (rules === undefined) {
+    return config;
+  }
+  if (!Array.isArray(rules)) {
+    errors.push('rules must be a list');
+    return config;
+  }
+
+  rules.forEach((rule, i) => {
+    const where = `rules[${i}]`;
+    if (!isMapping(rule)) {
+      errors.push(`${where} must be a mapping`);
+      return;
+    }
+
+    const { labels, title, ...ruleSettings } = rule;
+    const validated: ConfigRule = { labels: [], titlePattern: null, settings: validateSettings(ruleSettings, `${where}.`, errors) };
+
+    if (labels !== undefined) {
+      const list = typeof labels === 'string' ? [labels] : labels;
+      if (Array.isArray(list) && list.every((label) => typeof label === 'string' && label.trim() !== '')) {
+        validated.labels = list as string[];
+      } else {
+        errors.push(`${where}.labels must be a label name or a list of label names`);
+      }
+    }
+
+    if (title !== undefined) {
+      if (typeof title === 'string' && isValidRegex(title)) {
+        validated.titlePattern = title;
+      } else {
+        errors.push(`${where}.title must be a valid regular expression`);
+      }
+    }
+
+    if (labels === undefined && title === undefined) {
+      errors.push(`${where} needs labels or title to match issues`);
+    }
+
+    config.rules.push(validated);
+  });
+
+  return config;
+}
+
+/**
+ * Validate the settings of the top level or a rule
+ */
+function validateSettings(data: Record<string, unknown>, prefix: string, errors: string[]): Partial<IssueSettings> {
+  const settings: Partial<IssueSettings> = {};
+
+  for (const [name, value] of Object.entries(data)) {
+    const schema = SETTING_SCHEMA[name as ConfigSettingName];
+    if (!schema) {
+      errors.push(`${prefix}${name} is not a known setting (expected one of: ${CONFIG_SETTING_NAMES.join(', ')})`);
+    } else if (!schema.isValid(value)) {
+      errors.push(`${prefix}${name} must be ${schema.expected}`);
+    } else {
+      (settings as Record<string, unknown>)[schema.key] = value;
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Resolve the effective settings for an issue: the global settings, overridden by every matching rule in order
+ */
+export function resolveIssueSettings(issue: Pick<LinkedIssue, 'title' | 'labels'>, inputs: ParsedInputs): IssueSettings {
+  const settings: IssueSettings = {
+    testUrl: inputs.testUrl,
+    targetDurationMinutes: inputs.targetDurationMinutes,
+    qaLabel: inputs.qaLabel,
+    failureLabel: inputs.failureLabel,
+    reopenOnFailure: inputs.reopenOnFailure,
+  };
+
+  for (const rule of inputs.rules) {
+    if (matchesRule(issue, rule)) {
+      Object.assign(settings, rule.settings);
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Check whether an issue matches a rule: one of its labels (if any) and its title pattern (if any)
+ */
+function matchesRule(issue: Pick<LinkedIssue, 'title' | 'labels'>, rule: ConfigRule): boolean {
+  if (
+    rule.labels.length > 0 &&
+    !rule.labels.some((name) => issue.labels.some((label) => label.name.toLowerCase() === name.toLowerCase()))
+  ) {
+    return false;
+  }
+
+  return rule.titlePattern === null || new RegExp(rule.titlePattern, 'i').test(issue.title);
+}
+
+/**
+ * Whether a parsed YAML value is a mapping (not null, a list or a scalar)
+ */
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a pattern compiles as a regular expression
+ */
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,52 @@
+import * as core from '@actions/core';
+import { getIssueByNumber, searchIssues } from './github/linked-issues';
+import { formatIssueRef, issueKey } from './github/issue-ref';
+import type { LinkedIssue, ParsedInputs } from './types';
+
+// Most issues an issue-query run tests, so a too broad query can't start hundreds of paid tests
+export const MAX_QUERY_ISSUES = 100;
+
+/**
+ * Whether the run tests issues asked for by issue-number, issue-numbers or issue-query
+ * instead of the issues linked to a PR
+ */
+export function hasRequestedIssues(inputs: ParsedInputs): boolean {
+  return inputs.issueNumber !== null || inputs.issueNumbers.length > 0 || inputs.issueQuery !== null;
+}
+
+/**
+ * Fetch the issues asked for by issue-number, issue-numbers and issue-query, each once
+ * (issues that don't exist or are pull requests are skipped with a warning)
+ */
+export async function selectRequestedIssues(inputs: ParsedInputs): Promise<LinkedIssue[]> {
+  const selected = new Map<string, LinkedIssue>();
+  const numbers = inputs.issueNumber !== null ? [inputs.issueNumber, ...inputs.issueNumbers] : inputs.issueNumbers;
+
+  for (const number of new Set(numbers)) {
+    const issue = await getIssueByNumber(inputs.githubToken, number);
+    if (!issue) {
+      core.warning(`Issue #${number} not found or is a pull request, skipping it`);
+      continue;
+    }
+    selected.set(issueKey(issue), issue);
+  }
+
+  if (inputs.issueQuery !== null) {
+    const matches = await searchIssues(inputs.githubToken, inputs.issueQuery, MAX_QUERY_ISSUES + 1);
+    if (matches.length > MAX_QUERY_ISSUES) {
+      core.warning(
+        `issue-query matched more than ${MAX_QUERY_ISSUES} issues, testing the first ${MAX_QUERY_ISSUES}; narrow the query to test the rest`
+      );
+    } else {
+      core.info(`issue-query matched ${matches.length} issue(s): ${inputs.issueQuery}`);
+    }
+    for (const issue of matches.slice(0, MAX_QUERY_ISSUES)) {
+      selected.set(issueKey(issue), issue);
+    }
+  }
+
+  const issues = [...selected.values()];
+  core.info(`Requested issues: ${issues.map((issue) => formatIssueRef(issue)).join(', ') || '(none)'}`);
+
+  return issues;
+}
@@ -0,0 +1,94 @@
+import type { ActionResults, IssueTestResult, JobAttempt, QATestResponse } from './types';
+
+/**
+ * Aggregate per-issue results into the action's results object.
+ * Results are ordered by issue number so outputs don't depend on completion order.
+ */
+export function buildActionResults(issueResults: IssueTestResult[]): ActionResults {
+  const results: ActionResults = {
+    testedIssues: [],
+    passedIssues: [],
+    failedIssues: [],
+    skippedIssues: [],
+    budgetSkippedIssues: [],
+    inconclusiveIssues: [],
+    plannedIssues: [],
+    pendingJobs: [],
+    totalCostUsd: 0,
+    results: [...issueResults].sort(
+      (a, b) => a.issueNumber - b.issueNumber || (a.repository ?? '').localeCompare(b.repository ?? '')
+    ),
+  };
+
+  for (const result of results.results) {
+    if (result.status === 'tested') {
+      results.testedIssues.push(result.issueNumber);
+      if (result.passed) {
+        results.passedIssues.push(result.issueNumber);
+      } else {
+        results.failedIssues.push(result.issueNumber);
+      }
+    } else if (result.status === 'skipped') {
+      results.skippedIssues.push(result.issueNumber);
+      if (result.budgetExceeded) {
+        results.budgetSkippedIssues.push(result.issueNumber);
+      }
+    } else if (result.status === 'inconclusive') {
+      results.inconclusiveIssues.push(result.issueNumber);
+    } else if (result.status === 'planned') {
+      results.plannedIssues.push(result.issueNumber);
+    } else if (result.status === 'pending' && result.jobId) {
+      results.pendingJobs.push({ issueNumber: result.issueNumber, jobId: result.jobId });
+    }
+
+    results.totalCostUsd += resultCostUsd(result);
+  }
+
+  return results;
+}
+
+/**
+ * Cost of an issue's test, summed across all of its jobs
+ */
+export function resultCostUsd(result: Pick<IssueTestResult, 'testResult' | 'attempts'>): number {
+  if (result.attempts) {
+    return result.attempts.reduce((sum, attempt) => sum + (attempt.costUsd ?? 0), 0);
+  }
+  return result.testResult?.costUsd ?? 0;
+}
+
+/**
+ * Format a result's issue for summaries and logs: "#123", or "owner/repo#123" for issues in other repositories
+ */
+export function formatResultIssue(result: Pick<IssueTestResult, 'issueNumber' | 'repository'>): string {
+  return `${result.repository ?? ''}#${result.issueNumber}`;
+}
+
+/**
+ * Check whether a finished job ended without a verdict (abandoned, incomplete, errored or missing its result)
+ */
+export function isInconclusive(testResult: QATestResponse): boolean {
+  return testResult.status !== 'completed' || !testResult.result;
+}
+
+/**
+ * Explain why a finished job has no verdict, for comments and summaries
+ */
+export function describeInconclusive(testResult: QATestResponse): string {
+  const reasons: Record<string, string> = {
+    abandoned: 'The tester abandoned the test',
+    incomplete: 'The test was not completed',
+    error: 'The job ended with an error',
+    'no-consensus': 'The testers did not reach a verdict',
+  };
+  const reason = reasons[testResult.status] ?? 'The job finished without a verdict';
+
+  return testResult.error ? `${reason}: ${testResult.error}` : reason;
+}
+
+/**
+ * Record a finished job as an attempt
+ */
+export function toJobAttempt(jobId: string, testResult: QATestResponse): JobAttempt {
+  return { jobId, status: testResult.status, costUsd: testResult.costUsd };
+}
@@ -0,0 +1,259 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { getIssueByNumber } from './github/linked-issues';
+import { findDeploymentUrl } from './github/deployments';
+import { findJobRecords, type JobRecord } from './github/job-records';
+import { postIssueComment } from './github/issue-commenter';
+import { removeLabel } from './github/issue-manager';
+import { hasWriteAccess } from './github/permissions';
+import { addCommentReaction } from './github/reactions';
+import { formatIssueRef } from './github/issue-ref';
+import { getQATestStatus, cancelQATest, isFinishedStatus } from './api/run-test';
+import { processIssue, type RunContext } from './process-issue';
+import { isValidUrl } from './input-parser';
+import { createLock } from './concurrency';
+import { createCostBudget } from './budget';
+import { buildTestPlan } from './templates/test-plan';
+import type { IssueTestConfig } from './issue-config';
+import type { IssueRef, IssueTestResult, ParsedInputs } from './types';
+
+/**
+ * A `/runhuman` command from an issue comment
+ */
+export type SlashCommand =
+  | { name: 'test'; overrides: IssueTestConfig }
+  | { name: 'cancel' }
+  | { name: 'status' }
+  | { name: 'invalid'; error: string };
+
+// The command must start a line of the comment
+const COMMAND_PATTERN = /^\/runhuman(?:[ \t]+(.*))?$/m;
+
+const USAGE = `Usage:
+- \`/runhuman test [url=https://...] [duration=10]\`: test this issue now
+- \`/runhuman status\`: show the state of this issue's latest test
+- \`/runhuman cancel\`: cancel this issue's running test`;
+
+/**
+ * Parse the first `/runhuman` line of a comment, e.g. `/runhuman test url=https://staging.example.com duration=10`
+ * @returns The command, or null if the comment has none
+ */
+export function parseSlashCommand(body: string): SlashCommand | null {
+  const match = body.match(COMMAND_PATTERN);
+  if (!match) return null;
+
+  const [name, ...args] = (match[1] ?? '').trim().split(/\s+/).filter(Boolean);
+
+  switch (name) {
+    case 'test':
+      return parseTestArgs(args);
+    case 'cancel':
+    case 'status':
+      return args.length > 0 ? { name: 'invalid', error: `/runhuman ${name} takes no arguments` } : { name };
+    case undefined:
+      return { name: 'invalid', error: 'Missing command' };
+    default:
+      return { name: 'invalid', error: `Unknown command "${name}"` };
+  }
+}
+
+/**
+ * Parse the `key=value` arguments of `/runhuman test`
+ */
+function parseTestArgs(args: string[]): SlashCommand {
+  const overrides: IssueTestConfig = {};
+
+  for (const arg of args) {
+    const separator = arg.indexOf('=');
+    const key = separator > 0 ? arg.substring(0, separator) : arg;
+    const value = separator > 0 ? arg.substring(separator + 1) : '';
+
+    switch (key) {
+      case 'url':
+        if (!isValidUrl(value)) {
+          return { name: 'invalid', error: 'url must be a valid URL (http:// or https://)' };
+        }
+        overrides.testUrl = value;
+        break;
+      case 'duration': {
+        const duration = Number(value);
+        if (!Number.isInteger(duration) || duration < 1 || duration > 60) {
+          return { name: 'invalid', error: 'duration must be a whole number of minutes between 1 and 60' };
+        }
+        overrides.targetDurationMinutes = duration;
+        break;
+      }
+      default:
+        return { name: 'invalid', error: `Unknown argument "${arg}" (expected url=... or duration=...)` };
+    }
+  }
+
+  return { name: 'test', overrides };
+}
+
+/**
+ * Handle a `/runhuman` command from the issue_comment event: check the commenter may run it,
+ * acknowledge it with a reaction, then test, report on or cancel the issue's test
+ * @returns Results of issues the command tested (none for status and cancel)
+ */
+export async function handleSlashCommand(inputs: ParsedInputs): Promise<IssueTestResult[]> {
+  const { payload } = github.context;
+  const { comment, issue: issuePayload } = payload;
+
+  if (payload.action !== 'created' || !comment || !issuePayload) {
+    core.info('Not a new issue comment, nothing to do');
+    return [];
+  }
+  if (issuePayload.pull_request) {
+    core.info('/runhuman commands are only handled on issues, not pull requests');
+    return [];
+  }
+  if (inputs.mode === 'pre-merge') {
+    throw new Error('issue_comment events cannot be used with mode: pre-merge');
+  }
+
+  const command = parseSlashCommand(comment.body ?? '');
+  if (!command) {
+    core.info('Comment has no /runhuman command, nothing to do');
+    return [];
+  }
+
+  const issueRef: IssueRef = { ...github.context.repo, number: issuePayload.number };
+  const author: string = comment.user?.login ?? '';
+
+  // Tests cost money, so only collaborators who can push may start or cancel them
+  if (!(await hasWriteAccess(inputs.githubToken, author))) {
+    core.info(`Ignoring /runhuman ${command.name} from @${author}: write access to the repository is required`);
+    await addCommentReaction(inputs.githubToken, comment.id, '-1');
+    return [];
+  }
+
+  if (command.name === 'invalid') {
+    core.info(`Invalid /runhuman command from @${author}: ${command.error}`);
+    await addCommentReaction(inputs.githubToken, comment.id, 'confused');
+    await postIssueComment(inputs.githubToken, issueRef, `@${author} ${command.error}.\n\n${USAGE}`);
+    return [];
+  }
+
+  core.info(`Handling /runhuman ${command.name} from @${author} on issue ${formatIssueRef(issueRef)}`);
+  await addCommentReaction(inputs.githubToken, comment.id, 'eyes');
+
+  try {
+    switch (command.name) {
+      case 'test':
+        return [await runTestCommand(issueRef, command.overrides, inputs)];
+      case 'status':
+        await postIssueComment(inputs.githubToken, issueRef, await describeLatestJobs(issueRef, inputs));
+        return [];
+      case 'cancel':
+        await postIssueComment(inputs.githubToken, issueRef, await cancelLatestJobs(issueRef, inputs));
+        return [];
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await postIssueComment(inputs.githubToken, issueRef, `\u26A0\uFE0F /runhuman ${command.name} failed: ${errorMessage}`);
+    throw error;
+  }
+}
+
+/**
+ * Test the issue with the command's settings, replying when no result comment will explain the outcome
+ */
+async function runTestCommand(issueRef: IssueRef, overrides: IssueTestConfig, inputs: ParsedInputs): Promise<IssueTestResult> {
+  const issue = await getIssueByNumber(inputs.githubToken, issueRef.number);
+  if (!issue) {
+    throw new Error(`Issue ${formatIssueRef(issueRef)} not found`);
+  }
+
+  const commitSha = github.context.sha;
+  const testUrl = overrides.testUrl || inputs.testUrl;
+  const run: RunContext = {
+    commitSha,
+    prContext: null,
+    deploymentUrl: testUrl ? null : await findDeploymentUrl(inputs.githubToken, commitSha, inputs.environment),
+    githubLock: createLock(),
+    budget: createCostBudget(inputs.maxTotalCostUsd),
+    overrides,
+  };
+
+  // The command asks for this issue, like the issue-number input
+  const result = await processIssue(issue, { ...inputs, issueNumber: issue.number }, run);
+
+  if (result.status === 'skipped') {
+    await postIssueComment(inputs.githubToken, issue, `\u23ED\uFE0F Not tested: ${result.skipReason}`);
+  } else if (result.status === 'error') {
+    await postIssueComment(inputs.githubToken, issue, `\u26A0\uFE0F Test failed to run: ${result.error}`);
+  } else if (result.status === 'planned') {
+    await postIssueComment(inputs.githubToken, issue, `\u{1F50D} Dry run, no test was started:\n\n${buildTestPlan(result)}`);
+  }
+
+  return result;
+}
+
+/**
+ * Latest job of each tester of the issue's most recent test
+ */
+async function findLatestJobs(issueRef: IssueRef, inputs: ParsedInputs): Promise<JobRecord[]> {
+  const records = await findJobRecords(inputs.githubToken, issueRef, null);
+  const latest = new Map<number, JobRecord>();
+
+  // Newest first: the first record of each tester is its current job
+  for (const record of records.filter((r) => r.commitSha === records[0]?.commitSha)) {
+    if (!latest.has(record.tester ?? 1)) {
+      latest.set(record.tester ?? 1, record);
+    }
+  }
+
+  return [...latest.values()];
+}
+
+/**
+ * Build the reply to `/runhuman status`: the state of each job of the issue's latest test
+ */
+async function describeLatestJobs(issueRef: IssueRef, inputs: ParsedInputs): Promise<string> {
+  const jobs = await findLatestJobs(issueRef, inputs);
+  if (jobs.length === 0) {
+    return 'No Runhuman test has been started for this issue yet.';
+  }
+
+  let reply = `### QA Test Status
+
+Commit ${jobs[0].commitSha.substring(0, 7)}:
+
+| Job | Started | Status |
+|-----|---------|--------|
+`;
+  for (const job of jobs) {
+    const status = await getQATestStatus(inputs.apiKey, inputs.apiUrl, job.jobId, { maxAttempts: inputs.apiMaxAttempts });
+    reply += `| \`${job.jobId}\` | ${job.createdAt || 'unknown'} | ${status} |\n`;
+  }
+
+  return reply;
+}
+
+/**
+ * Cancel the unfinished jobs of the issue's latest test and build the reply to `/runhuman cancel`
+ */
+async function cancelLatestJobs(issueRef: IssueRef, inputs: ParsedInputs): Promise<string> {
+  const retry = { maxAttempts: inputs.apiMaxAttempts };
+  const cancelled: string[] = [];
+
+  for (const job of await findLatestJobs(issueRef, inputs)) {
+    const status = await getQATestStatus(inputs.apiKey, inputs.apiUrl, job.jobId, retry);
+    if (isFinishedStatus(status)) continue;
+
+    if (!(await cancelQATest(inputs.apiKey, inputs.apiUrl, job.jobId, retry))) {
+      return `Cancelling tests isn't supported by the Runhuman API, so job \`${job.jobId}\` keeps running and its result will be posted here.`;
+    }
+    cancelled.push(job.jobId);
+  }
+
+  if (cancelled.length === 0) {
+    return 'No running Runhuman test to cancel on this issue.';
+  }
+
+  // A cancelled dispatched job has no result left to collect
+  await removeLabel(inputs.githubToken, issueRef, inputs.pendingLabel);
+
+  return `\u{1F6D1} Cancelled ${cancelled.map((jobId) => `job \`${jobId}\``).join(', ')}.`;
+}
@@ -1,21 +1,103 @@
-import type { QATestResponse, AnalyzeIssueResponse } from '../types';
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  QATestResponse,
+  AnalyzeIssueResponse,
+  ResultHistoryEntry,
+  LinkedIssue,
+  PRContext,
+  JobAttempt,
+  TesterResult,
+  Consensus,
+} from '../types';
+import { parseTemplate, renderTemplate } from './template-engine';
+import { buildMarker, parseMarker } from '../markers';
+import { isInconclusive, describeInconclusive, resultCostUsd } from '../results';
+
+// Keep edited comments well below GitHub's comment size limit
+const MAX_HISTORY_ENTRIES = 20;
+
+// A fix that fails once and then passes changes verdict once; more changes than that suggest a flaky test
+const FLAKY_VERDICT_CHANGES = 2;
+
+const VERDICT_EMOJI: Record<ResultHistoryEntry['verdict'], string> = {
+  passed: '\u2705',
+  failed: '\u274C',
+  inconclusive: '\u2753',
+};
+
+/**
+ * Extra context for a result comment
+ */
+export interface ResultCommentContext {
+  /** Commit SHA that was tested */
+  commitSha?: string;
+  /** ISO timestamp of the result (defaults to now) */
+  timestamp?: string;
+  /** Earlier verdicts, newest first, rendered as a collapsed history section */
+  history?: ResultHistoryEntry[];
+  /** User-supplied template replacing the built-in layout (see template-engine.ts) */
+  template?: string | null;
+  /** Tested issue, exposed to custom templates as `issue` */
+  issue?: LinkedIssue;
+  /** PR that fixed the issue, exposed to custom templates as `pr` */
+  prContext?: PRContext | null;
+  /** Every job of the test in order, when there was more than one */
+  attempts?: JobAttempt[];
+  /** Each tester's outcome, when several tested the issue */
+  testers?: TesterResult[];
+  /** How the testers' verdicts were combined */
+  consensus?: Consensus;
+}
+
+/**
+ * Parsed metadata of an earlier result comment
+ */
+export interface ParsedResultComment {
+  /** Verdict shown in the comment */
+  latest: ResultHistoryEntry;
+  /** Verdicts the comment already carried as history, newest first */
+  history: ResultHistoryEntry[];
+}
 
 /**
  * Build a markdown comment for posting test results to a GitHub issue
  */
 export function buildTestResultComment(
   testResult: QATestResponse,
-  analysis: AnalyzeIssueResponse
+  analysis: AnalyzeIssueResponse,
+  context: ResultCommentContext = {}
 ): string {
-  const passed = testResult.result?.success ?? false;
-  const statusEmoji = passed ? '\u2705' : '\u274C';
-  const statusText = passed ? 'PASSED' : 'FAILED';
+  const inconclusive = isInconclusive(testResult);
+  const passed = !inconclusive && (testResult.result?.success ?? false);
+  const verdict: ResultHistoryEntry['verdict'] = inconclusive ? 'inconclusive' : passed ? 'passed' : 'failed';
+
+  const costUsd = resultCostUsd({ testResult, attempts: context.attempts });
+  const testerAliases = (context.testers?.length ? context.testers.map((tester) => tester.testResult) : [testResult])
+    .map((result) => result.testerAlias)
+    .filter((alias): alias is string => Boolean(alias));
+  const entry: ResultHistoryEntry = {
+    verdict,
+    timestamp: context.timestamp ?? new Date().toISOString(),
+    commitSha: context.commitSha ?? '',
+    jobId: testResult.jobId,
+    ...(costUsd > 0 ? { costUsd } : {}),
+    ...(testerAliases.length > 0 ? { testers: testerAliases } : {}),
+  };
 
-  let comment = `## ${statusEmoji} QA Test ${statusText}
+  const marker = `${buildMarker('result', entry)}\n`;
+  const history = (context.history ?? []).slice(0, MAX_HISTORY_ENTRIES);
+
+  if (context.template) {
+    const data = buildTemplateData(testResult, analysis, context, entry);
+    return marker + renderTemplate(context.template, data) + buildHistorySection(entry, history);
+  }
+
+  let comment = `${marker}## ${VERDICT_EMOJI[verdict]} QA Test ${verdict.toUpperCase()}
 
 **Tested URL:** ${analysis.testUrl || 'N/A'}
 **Duration:** ${testResult.testDurationSeconds ? `${testResult.testDurationSeconds}s` : 'N/A'}
-**Cost:** ${testResult.costUsd ? `$${testResult.costUsd.toFixed(4)}` : 'N/A'}
+**Cost:** ${formatCost(testResult, context)}
 **Confidence:** ${(analysis.confidence * 100).toFixed(0)}%
 
 ---
@@ -28,10 +110,13 @@ export function buildTestResultComment(
 
 ### Tester Findings
 
-> ${testResult.result?.explanation || 'No explanation provided'}
+> ${inconclusive ? describeInconclusive(testResult) : testResult.result?.explanation || 'No explanation provided'}
 
 `;
 
+  // Add each tester's findings when several tested the issue
+  comment += buildTestersSection(context.testers ?? [], context.consensus);
+
   // Add extracted data if available
   if (testResult.result?.data && Object.keys(testResult.result.data).length > 0) {
     comment += `
@@ -68,8 +153,18 @@ export function buildTestResultComment(
 `;
   }
 
+  // Add the jobs it took to get this result
+  comment += buildAttemptsSection(context.attempts ?? [], context.testers?.length ?? 1);
+
   // Add action taken message
-  if (!passed) {
+  if (inconclusive) {
+    comment += `
+---
+
+**Action Taken:** None. The test ended without a verdict, so the issue was left as it was.
+
+`;
+  } else if (!passed) {
     comment += `
 ---
 
@@ -85,6 +180,9 @@ export function buildTestResultComment(
 `;
   }
 
+  // Add collapsed history of earlier verdicts, flagging a flaky test
+  comment += buildHistorySection(entry, history);
+
   // Footer
   comment += `
 ---
@@ -95,6 +193,272 @@ export function buildTestResultComment(
   return comment;
 }
 
+/**
+ * Load and validate a user-supplied comment template from the repository
+ * @param templatePath Path relative to the workspace (the checked-out repository)
+ */
+export function loadCommentTemplate(templatePath: string): string {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const fullPath = path.resolve(workspace, templatePath);
+
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(
+      `comment-template file not found: ${templatePath}. ` +
+        'Make sure the repository is checked out (actions/checkout) before this action runs.'
+    );
+  }
+
+  const template = fs.readFileSync(fullPath, 'utf8');
+
+  try {
+    parseTemplate(template);
+  } catch (error) {
+    throw new Error(`Invalid comment-template ${templatePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return template;
+}
+
+/**
+ * Build the data exposed to custom comment templates
+ */
+function buildTemplateData(
+  testResult: QATestResponse,
+  analysis: AnalyzeIssueResponse,
+  context: ResultCommentContext,
+  entry: ResultHistoryEntry
+): Record<string, unknown> {
+  const passed = entry.verdict === 'passed';
+  const data = testResult.result?.data ?? {};
+
+  return {
+    passed,
+    inconclusive: entry.verdict === 'inconclusive',
+    inconclusiveReason: entry.verdict === 'inconclusive' ? describeInconclusive(testResult) : null,
+    verdict: entry.verdict.toUpperCase(),
+    statusEmoji: VERDICT_EMOJI[entry.verdict],
+    commitSha: entry.commitSha,
+    shortSha: entry.commitSha.substring(0, 7),
+    timestamp: entry.timestamp,
+    test: testResult,
+    analysis,
+    issue: context.issue ?? null,
+    pr: context.prContext ?? null,
+    attempts: context.attempts ?? [],
+    testers: (context.testers ?? []).map((tester, i) => ({
+      number: i + 1,
+      jobId: tester.jobId,
+      verdict: testerVerdict(tester),
+      explanation: isInconclusive(tester.testResult)
+        ? describeInconclusive(tester.testResult)
+        : tester.testResult.result?.explanation || 'No explanation provided',
+    })),
+    consensus: context.consensus ?? null,
+    dataFields: Object.entries(data).map(([name, value]) => ({ name, value, display: formatValue(value) })),
+    formatted: {
+      testUrl: analysis.testUrl || 'N/A',
+      duration: testResult.testDurationSeconds ? `${testResult.testDurationSeconds}s` : 'N/A',
+      cost: formatCost(testResult, context),
+      confidence: `${(analysis.confidence * 100).toFixed(0)}%`,
+    },
+  };
+}
+
+/**
+ * Build the table of each tester's verdict and findings, with whether they agreed
+ */
+function buildTestersSection(testers: TesterResult[], consensus: Consensus | undefined): string {
+  if (testers.length < 2) return '';
+
+  let section = `
+### Testers
+
+${consensus ? `**Consensus (${consensus.rule}):** ${consensus.agreed ? '\u2705 Testers agreed' : '\u26A0\uFE0F Testers disagreed'}\n\n` : ''}| Tester | Verdict | Findings |
+|--------|---------|----------|
+`;
+  testers.forEach((tester, i) => {
+    const findings = isInconclusive(tester.testResult)
+      ? describeInconclusive(tester.testResult)
+      : tester.testResult.result?.explanation || 'No explanation provided';
+    section += `| ${i + 1} | ${formatVerdict(testerVerdict(tester))} | ${formatTableCell(findings)} |\n`;
+  });
+
+  return `${section}\n`;
+}
+
+/**
+ * Verdict of a single tester
+ */
+function testerVerdict(tester: TesterResult): ResultHistoryEntry['verdict'] {
+  if (isInconclusive(tester.testResult)) return 'inconclusive';
+  return tester.testResult.result?.success ? 'passed' : 'failed';
+}
+
+/**
+ * Build the table of jobs a test took (shown only when a job had to be replaced)
+ * @param testerCount Testers of the issue, each of which needs at least one job
+ */
+function buildAttemptsSection(attempts: JobAttempt[], testerCount: number): string {
+  if (attempts.length <= testerCount) return '';
+
+  let section = `
+### Attempts
+
+| # | Job | Status | Cost |
+|---|-----|--------|------|
+`;
+  attempts.forEach((attempt, i) => {
+    section += `| ${i + 1} | \`${attempt.jobId}\` | ${attempt.status} | ${attempt.costUsd ? `$${attempt.costUsd.toFixed(4)}` : 'N/A'} |\n`;
+  });
+
+  return `${section}\n`;
+}
+
+/**
+ * Format the cost of a test, totaled across testers and attempts when there were several
+ */
+function formatCost(testResult: QATestResponse, context: ResultCommentContext): string {
+  const costUsd = resultCostUsd({ testResult, attempts: context.attempts });
+  const cost = costUsd ? `$${costUsd.toFixed(4)}` : 'N/A';
+
+  const testerCount = context.testers?.length ?? 1;
+  const jobCount = context.attempts?.length ?? 1;
+  const notes = [
+    testerCount > 1 ? `${testerCount} testers` : null,
+    jobCount > testerCount ? `${jobCount} attempts` : null,
+  ].filter(Boolean);
+
+  return notes.length > 0 ? `${cost} (${notes.join(', ')})` : cost;
+}
+
+/**
+ * Make text safe for a markdown table cell
+ */
+function formatTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n+/g, '<br>');
+}
+
+/**
+ * Build the collapsed history section (and its hidden metadata) for earlier verdicts,
+ * with a warning when the verdicts alternated
+ */
+function buildHistorySection(latest: ResultHistoryEntry, history: ResultHistoryEntry[]): string {
+  if (history.length === 0) return '';
+
+  const verdictChanges = countVerdictChanges([latest, ...history]);
+  let section = '\n';
+  if (verdictChanges >= FLAKY_VERDICT_CHANGES) {
+    section += `> [!WARNING]
+> **Possibly flaky:** the verdict changed ${verdictChanges} times over the last ${history.length + 1} results.
+`;
+  }
+
+  section += `
+<details>
+<summary>Previous results (${history.length})</summary>
+
+| Date | Commit | Verdict | Tester | Cost |
+|------|--------|---------|--------|------|
+`;
+  for (const previous of history) {
+    section += `| ${formatTimestamp(previous.timestamp)} | ${formatCommit(previous.commitSha)} | ${formatVerdict(previous.verdict)} | ${formatTester(previous)} | ${previous.costUsd ? `$${previous.costUsd.toFixed(4)}` : 'N/A'} |\n`;
+  }
+  section += `
+</details>
+
+${buildMarker('history', history)}
+`;
+
+  return section;
+}
+
+/**
+ * Count how often consecutive verdicts flipped between passed and failed (inconclusive results are ignored)
+ */
+export function countVerdictChanges(entries: ResultHistoryEntry[]): number {
+  const verdicts = entries.map((entry) => entry.verdict).filter((verdict) => verdict !== 'inconclusive');
+  return verdicts.filter((verdict, i) => i > 0 && verdict !== verdicts[i - 1]).length;
+}
+
+/**
+ * Merge the verdicts recorded in an issue's result comments into one history, newest first,
+ * listing a result carried by several comments once
+ */
+export function mergeResultHistory(comments: ParsedResultComment[]): ResultHistoryEntry[] {
+  const entries = new Map<string, ResultHistoryEntry>();
+
+  for (const comment of comments) {
+    for (const entry of [comment.latest, ...comment.history]) {
+      const key = entry.jobId ?? `${entry.timestamp}:${entry.commitSha}`;
+      if (!entries.has(key)) {
+        entries.set(key, entry);
+      }
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * Parse the hidden metadata of a result comment
+ * @returns The parsed metadata, or null if the comment is not a Runhuman result comment
+ */
+export function parseResultComment(body: string): ParsedResultComment | null {
+  const latest = parseMarker(body, 'result');
+  if (!isHistoryEntry(latest)) return null;
+
+  const history = parseMarker(body, 'history');
+
+  return {
+    latest,
+    history: Array.isArray(history) ? history.filter(isHistoryEntry) : [],
+  };
+}
+
+/**
+ * Check that a parsed value has the shape of a history entry
+ */
+function isHistoryEntry(value: unknown): value is ResultHistoryEntry {
+  const entry = value as Partial<ResultHistoryEntry> | null;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    (entry.verdict === 'passed' || entry.verdict === 'failed' || entry.verdict === 'inconclusive') &&
+    typeof entry.timestamp === 'string' &&
+    typeof entry.commitSha === 'string'
+  );
+}
+
+/**
+ * Format an ISO timestamp for the history table
+ */
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return 'N/A';
+  return `${date.toISOString().substring(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Format a commit SHA for the history table
+ */
+function formatCommit(commitSha: string): string {
+  return commitSha ? `\`${commitSha.substring(0, 7)}\`` : 'N/A';
+}
+
+/**
+ * Format who tested a result for the history table
+ */
+function formatTester(entry: ResultHistoryEntry): string {
+  return Array.isArray(entry.testers) && entry.testers.length > 0 ? formatTableCell(entry.testers.join(', ')) : 'N/A';
+}
+
+/**
+ * Format a verdict for the history table
+ */
+function formatVerdict(verdict: ResultHistoryEntry['verdict']): string {
+  return `${VERDICT_EMOJI[verdict]} ${verdict.charAt(0).toUpperCase()}${verdict.slice(1)}`;
+}
+
 /**
  * Format a value for display in the results table
  */
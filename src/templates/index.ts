@@ -1 +1,2 @@
-export { buildTestResultComment } from './comment-template';
+export { buildTestResultComment, parseResultComment, mergeResultHistory, countVerdictChanges } from './comment-template';
+export { buildTestPlan, buildPlanDetails, buildPlanPreviewComment, buildReviewComment } from './test-plan';
@@ -0,0 +1,106 @@
+import type { ActionResults, IssueTestResult } from '../types';
+import { buildMarker } from '../markers';
+import { formatResultIssue, describeInconclusive } from '../results';
+
+// Keep table cells on one line and readable
+const MAX_CELL_LENGTH = 200;
+
+/**
+ * Build the aggregated pre-merge report posted on the PR (one comment, edited on every push)
+ * @param commitSha PR head commit the issues were tested against
+ */
+export function buildPRReportComment(results: ActionResults, commitSha: string): string {
+  const passed = results.passedIssues.length;
+  const failed = results.failedIssues.length;
+  const inconclusive = results.inconclusiveIssues.length;
+  const statusEmoji = failed > 0 ? '\u274C' : passed > 0 && inconclusive === 0 ? '\u2705' : '\u26A0\uFE0F';
+
+  let comment = `${buildMarker('pr-report', { commitSha })}
+## ${statusEmoji} QA Verification: ${passed} passed, ${failed} failed${inconclusive > 0 ? `, ${inconclusive} inconclusive` : ''}
+
+Linked issues were tested against commit ${commitSha.substring(0, 7)} before merge. The issues themselves are not closed, reopened or labeled by this check.
+
+| Issue | Result | Details |
+|-------|--------|---------|
+`;
+
+  for (const result of results.results) {
+    comment += `| ${formatResultIssue(result)} | ${formatResult(result)} | ${formatCell(formatDetails(result))} |\n`;
+  }
+
+  // Full findings for each tested issue
+  const tested = results.results.filter((r) => r.status === 'tested');
+  if (tested.length > 0) {
+    comment += '\n### Findings\n';
+
+    for (const result of tested) {
+      comment += `
+<details>
+<summary>${result.passed ? '\u2705' : '\u274C'} ${formatResultIssue(result)}</summary>
+
+**Tested URL:** ${result.analysis?.testUrl || 'N/A'}
+**Duration:** ${result.testResult?.testDurationSeconds ? `${result.testResult.testDurationSeconds}s` : 'N/A'}
+
+> ${result.testResult?.result?.explanation || 'No explanation provided'}
+${result.testResult?.testerData?.videoUrl ? `\n[View Video Recording](${result.testResult.testerData.videoUrl})\n` : ''}
+</details>
+`;
+    }
+  }
+
+  if (results.totalCostUsd > 0) {
+    comment += `\n**Total cost:** $${results.totalCostUsd.toFixed(4)}\n`;
+  }
+
+  comment += `
+---
+
+<sub>Powered by [Runhuman](https://runhuman.com) - Human-powered QA testing</sub>
+`;
+
+  return comment;
+}
+
+/**
+ * Short result label for the report table
+ */
+function formatResult(result: IssueTestResult): string {
+  switch (result.status) {
+    case 'tested':
+      return result.passed ? '\u2705 Passed' : '\u274C Failed';
+    case 'inconclusive':
+      return '\u2753 Inconclusive';
+    case 'skipped':
+      return '\u23ED\uFE0F Skipped';
+    case 'pending':
+      return '\u23F3 Pending';
+    default:
+      return '\u26A0\uFE0F Error';
+  }
+}
+
+/**
+ * One-line explanation for the report table
+ */
+function formatDetails(result: IssueTestResult): string {
+  switch (result.status) {
+    case 'tested':
+      return result.testResult?.result?.explanation || 'No explanation provided';
+    case 'inconclusive':
+      return result.testResult ? describeInconclusive(result.testResult) : '';
+    case 'skipped':
+      return result.skipReason || '';
+    case 'pending':
+      return `Job \`${result.jobId}\``;
+    default:
+      return result.error || '';
+  }
+}
+
+/**
+ * Make text safe for a markdown table cell: single line, escaped pipes, truncated
+ */
+function formatCell(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+  return singleLine.length > MAX_CELL_LENGTH ? `${singleLine.substring(0, MAX_CELL_LENGTH - 1)}\u2026` : singleLine;
+}
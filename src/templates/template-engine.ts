@@ -0,0 +1,236 @@
+/**
+ * Minimal Handlebars-style template engine for user-supplied comment templates
+ *
+ * Supported syntax:
+ * - `{{path.to.value}}` - insert a value (objects are rendered as JSON, missing values as empty)
+ * - `{{#if path}}...{{else}}...{{/if}}` and `{{#unless path}}...{{/unless}}` - conditional sections
+ * - `{{#each path}}...{{else}}...{{/each}}` - loop over an array or object; inside the loop
+ *   `{{this}}` is the current item, `{{@index}}`/`{{@number}}` its 0/1-based position and
+ *   `{{@key}}` its key when looping over an object
+ * - `{{! comment }}` - ignored
+ *
+ * Empty arrays and empty objects are falsy. Names are looked up in the current loop item first,
+ * then in enclosing scopes. Block tags on a line of their own don't leave blank lines behind.
+ */
+
+type BlockType = 'if' | 'unless' | 'each';
+
+interface BlockNode {
+  type: BlockType;
+  path: string;
+  body: TemplateNode[];
+  elseBody: TemplateNode[];
+}
+
+type TemplateNode = { type: 'text'; value: string } | { type: 'variable'; path: string } | BlockNode;
+
+interface Scope {
+  value: unknown;
+  index?: number;
+  key?: string;
+}
+
+const BLOCK_TYPES: BlockType[] = ['if', 'unless', 'each'];
+
+// Any {{...}} tag; captures the sigil (#, / or !) and the tag content
+const TAG_PATTERN = /\{\{\s*([#/!]?)\s*([\s\S]*?)\s*\}\}/g;
+
+// A block tag alone on its line, including surrounding whitespace and the line break
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{\{\s*(?:[#/!][^}]*|else\s*)\}\})[ \t]*\r?\n/gm;
+
+/**
+ * Parse a template, throwing a descriptive error if it is malformed
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const source = template.replace(STANDALONE_TAG_PATTERN, '$1');
+  const root: TemplateNode[] = [];
+  const open: Array<{ node: BlockNode; inElse: boolean }> = [];
+  let lastIndex = 0;
+
+  const target = (): TemplateNode[] => {
+    const top = open[open.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.elseBody : top.node.body;
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, content] = match;
+    const index = match.index ?? 0;
+
+    if (index > lastIndex) {
+      target().push({ type: 'text', value: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + tag.length;
+
+    if (sigil === '!') {
+      continue;
+    }
+
+    if (sigil === '#') {
+      const [type, path, ...rest] = content.split(/\s+/);
+      if (!BLOCK_TYPES.includes(type as BlockType)) {
+        throw new Error(`Unknown block "${tag}" (supported: #if, #unless, #each)`);
+      }
+      if (!path || rest.length > 0) {
+        throw new Error(`Block "${tag}" needs exactly one value to test`);
+      }
+      const node: BlockNode = { type: type as BlockType, path, body: [], elseBody: [] };
+      target().push(node);
+      open.push({ node, inElse: false });
+    } else if (sigil === '/') {
+      const top = open.pop();
+      if (!top) {
+        throw new Error(`Unexpected "${tag}" without a matching opening block`);
+      }
+      if (top.node.type !== content) {
+        throw new Error(`"${tag}" does not match the open "{{#${top.node.type} ${top.node.path}}}"`);
+      }
+    } else if (content === 'else') {
+      const top = open[open.length - 1];
+      if (!top || top.inElse) {
+        throw new Error('Unexpected "{{else}}" outside of a block');
+      }
+      top.inElse = true;
+    } else {
+      if (!content) {
+        throw new Error('Empty "{{}}" tag');
+      }
+      target().push({ type: 'variable', path: content });
+    }
+  }
+
+  if (lastIndex < source.length) {
+    target().push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  const unclosed = open.pop();
+  if (unclosed) {
+    throw new Error(`"{{#${unclosed.node.type} ${unclosed.node.path}}}" is never closed`);
+  }
+
+  return root;
+}
+
+/**
+ * Render a template with the given data
+ */
+export function renderTemplate(template: string, data: Record<string, unknown>): string {
+  return renderNodes(parseTemplate(template), [{ value: data }]);
+}
+
+/**
+ * Render parsed nodes against a scope stack (innermost scope last)
+ */
+function renderNodes(nodes: TemplateNode[], scopes: Scope[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'variable') {
+      output += stringify(lookup(node.path, scopes));
+    } else if (node.type === 'each') {
+      output += renderEach(node, scopes);
+    } else {
+      const truthy = isTruthy(lookup(node.path, scopes));
+      const show = node.type === 'if' ? truthy : !truthy;
+      output += renderNodes(show ? node.body : node.elseBody, scopes);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render an #each block over an array or the entries of an object
+ */
+function renderEach(node: BlockNode, scopes: Scope[]): string {
+  const value = lookup(node.path, scopes);
+
+  let items: Scope[] = [];
+  if (Array.isArray(value)) {
+    items = value.map((item, index) => ({ value: item, index }));
+  } else if (isObject(value)) {
+    items = Object.entries(value).map(([key, item], index) => ({ value: item, index, key }));
+  }
+
+  if (items.length === 0) {
+    return renderNodes(node.elseBody, scopes);
+  }
+
+  return items.map((item) => renderNodes(node.body, [...scopes, item])).join('');
+}
+
+/**
+ * Resolve a dotted path against the scope stack
+ */
+function lookup(path: string, scopes: Scope[]): unknown {
+  const current = scopes[scopes.length - 1];
+
+  if (path.startsWith('@')) {
+    // Loop metadata comes from the innermost loop scope
+    const loop = [...scopes].reverse().find((scope) => scope.index !== undefined);
+    if (!loop || loop.index === undefined) return undefined;
+    if (path === '@index') return loop.index;
+    if (path === '@number') return loop.index + 1;
+    if (path === '@key') return loop.key;
+    return undefined;
+  }
+
+  if (path === 'this') {
+    return current.value;
+  }
+
+  if (path.startsWith('this.')) {
+    return resolvePath(current.value, path.substring(5).split('.'));
+  }
+
+  const segments = path.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const value = scopes[i].value;
+    if (isObject(value) && segments[0] in value) {
+      return resolvePath(value, segments);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Walk object properties along a path
+ */
+function resolvePath(value: unknown, segments: string[]): unknown {
+  let current = value;
+  for (const segment of segments) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Template truthiness: empty arrays and objects count as false
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (isObject(value)) return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+/**
+ * Convert a value to template output
+ */
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Check for a plain (non-array) object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,100 @@
+import type { AnalyzeIssueResponse, IssueTestResult, PlannedTest } from '../types';
+import { buildMarker } from '../markers';
+
+/**
+ * Build the markdown test plan of an analyzed issue (dry run): the testability decision and what would be tested
+ */
+export function buildTestPlan(result: IssueTestResult): string {
+  const { analysis, plannedTest } = result;
+  if (!analysis) {
+    return `**Decision:** Not analyzed - ${result.skipReason || result.error || 'no reason given'}\n`;
+  }
+
+  return `**Decision:** ${plannedTest ? 'Would be tested' : `Would not be tested - ${result.skipReason || result.error || 'no reason given'}`}
+${buildPlanDetails(analysis, plannedTest)}`;
+}
+
+/**
+ * Build the details of a proposed test: testability, URL, size and cost, instructions and output schema
+ */
+export function buildPlanDetails(analysis: AnalyzeIssueResponse, plannedTest: PlannedTest | undefined): string {
+  let plan = `**Testable:** ${analysis.isTestable ? 'Yes' : `No${analysis.reason ? ` (${analysis.reason})` : ''}`}
+**Confidence:** ${formatPercent(analysis.confidence)}
+**Test URL:** ${analysis.testUrl || 'N/A'}
+`;
+
+  if (plannedTest) {
+    plan += `**Target duration:** ${plannedTest.targetDurationMinutes} min
+**Testers:** ${plannedTest.testers}
+**Estimated cost:** $${plannedTest.estimatedCostUsd.toFixed(4)}
+`;
+  }
+
+  plan += `
+**Instructions:**
+
+> ${analysis.testInstructions.replace(/\n/g, '\n> ')}
+`;
+
+  const fields = Object.entries(analysis.outputSchema);
+  if (fields.length > 0) {
+    plan += `
+**Output schema:**
+
+| Field | Type | Description |
+|-------|------|-------------|
+`;
+    for (const [name, field] of fields) {
+      plan += `| ${name} | ${field.type} | ${field.description.replace(/\|/g, '\\|').replace(/\s+/g, ' ')} |\n`;
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Build the comment asking a maintainer to approve a low-confidence analysis before a job is created
+ * @param minConfidence Threshold the analysis fell below
+ * @param approvalLabel Label that approves the test
+ */
+export function buildReviewComment(
+  analysis: AnalyzeIssueResponse,
+  plannedTest: PlannedTest,
+  minConfidence: number,
+  approvalLabel: string
+): string {
+  return `${buildMarker('review', { confidence: analysis.confidence })}
+## \u{1F50E} QA Test Needs Review
+
+The analysis of this issue is only ${formatPercent(analysis.confidence)} confident (\`min-confidence\` is ${formatPercent(minConfidence)}), so no test was started. Check the proposed test below, edit the issue if it is wrong, and add the \`${approvalLabel}\` label. The label alone doesn't start a run: comment \`/runhuman test\` afterwards to run the test.
+
+${buildPlanDetails(analysis, plannedTest)}
+---
+
+<sub>Powered by [Runhuman](https://runhuman.com) - Human-powered QA testing</sub>
+`;
+}
+
+/**
+ * Format a 0-1 confidence as a whole percentage
+ */
+function formatPercent(confidence: number): string {
+  return `${(confidence * 100).toFixed(0)}%`;
+}
+
+/**
+ * Build the preview comment posted on an issue by a dry run (one comment, edited on later dry runs)
+ * @param commitSha Commit the dry run ran for
+ */
+export function buildPlanPreviewComment(result: IssueTestResult, commitSha: string): string {
+  return `${buildMarker('preview', { commitSha })}
+## \u{1F50D} QA Test Plan (Preview)
+
+_Dry run for commit ${commitSha.substring(0, 7)}: no test was run and this issue was not changed. This is what the action would do._
+
+${buildTestPlan(result)}
+---
+
+<sub>Powered by [Runhuman](https://runhuman.com) - Human-powered QA testing</sub>
+`;
+}
@@ -13,19 +13,140 @@ export interface ParsedInputs {
   removeFailureLabelOnSuccess: boolean;
   /** Specific issue number for manual testing (null = use PR linked issues flow) */
   issueNumber: number | null;
+  /** More issue numbers to test on demand, like issueNumber (empty = none) */
+  issueNumbers: number[];
+  /** GitHub issue search whose matches are tested on demand (null = none) */
+  issueQuery: string | null;
   /** Manual test URL override (null = use AI-detected URL from issue) */
   testUrl: string | null;
+  /** Deployment environment whose URL for the tested commit is used as the base test URL */
+  environment: string | null;
   /** Custom regex pattern for detecting issue numbers in commit messages */
   issuePattern: string | null;
   /** GitHub repository (owner/repo format) for context - provides README.md and CLAUDE.md to the LLM */
   githubRepo: string;
+  /** Maximum number of issues tested in parallel */
+  maxConcurrency: number;
+  /** Spend cap across all tests in this run, in USD (null = unlimited) */
+  maxTotalCostUsd: number | null;
+  /** Maximum estimated cost of a single test, in USD (null = unlimited) */
+  maxCostUsd: number | null;
+  /** Edit the earlier Runhuman result comment instead of posting a new one */
+  stickyComment: boolean;
+  /** Contents of the user-supplied result comment template (null = built-in layout) */
+  commentTemplate: string | null;
+  /** Delay between the first two job status checks, in seconds */
+  pollIntervalSeconds: number;
+  /** Factor applied to the poll interval after each check */
+  pollBackoffMultiplier: number;
+  /** Ceiling for the poll interval, in seconds */
+  pollMaxIntervalSeconds: number;
+  /** Maximum time to wait for a job, in minutes (null = derive from target duration) */
+  maxWaitMinutes: number | null;
+  /**
+   * full = test and wait; dispatch = only create jobs; collect = pick up results of dispatched jobs;
+   * pre-merge = test an open PR's linked issues and report on the PR without touching the issues;
+   * regression = retest a rotating batch of closed, previously verified issues (for schedule triggers)
+   */
+  mode: 'full' | 'dispatch' | 'collect' | 'pre-merge' | 'regression';
+  /** Label marking issues whose dispatched job hasn't been collected yet */
+  pendingLabel: string;
+  /** Attempts per Runhuman API call before giving up on transient failures */
+  apiMaxAttempts: number;
+  /** Publish results as a Check Run on the tested commit */
+  checkRun: boolean;
+  /** Name of the Check Run */
+  checkName: string;
+  /**
+   * What to do when a job ends without a verdict (abandoned, incomplete or errored):
+   * ignore = leave the issue untouched; label = comment and add the inconclusive label;
+   * retry = run one more job, then handle as label if that doesn't reach a verdict either
+   */
+  inconclusivePolicy: 'ignore' | 'label' | 'retry';
+  /** Label added to issues whose test was inconclusive */
+  inconclusiveLabel: string;
+  /** Jobs per issue when jobs end abandoned or incomplete (1 = never re-dispatch) */
+  maxAttempts: number;
+  /** Independent testers (jobs) per issue whose verdicts are combined */
+  testersPerIssue: number;
+  /** How the verdicts of several testers are combined */
+  consensus: ConsensusRule;
+  /** Analyze issues and report the test plan without creating jobs or changing issues */
+  dryRun: boolean;
+  /** In a dry run, also post the test plan on each issue as a preview comment */
+  dryRunComment: boolean;
+  /** Analyses less confident than this (0-1) are skipped, or held for approval on labeled issues (0 = disabled) */
+  minConfidence: number;
+  /** Label added to labeled issues whose low-confidence analysis awaits approval */
+  needsReviewLabel: string;
+  /** Label a maintainer adds to approve a low-confidence analysis */
+  approvalLabel: string;
+  /** Auto-detected issues get a proposed test and wait for a +1 reaction from a user with write access */
+  requireApproval: boolean;
+  /** Label marking issues whose proposed test awaits approval (picked up by collect runs) */
+  awaitingApprovalLabel: string;
+  /** Label marking closed issues to retest in regression mode */
+  regressionLabel: string;
+  /** Which closed issues regression mode retests: labeled ones, ones whose last QA test passed, or both */
+  regressionScope: 'label' | 'passed' | 'all';
+  /** Issues retested per regression run; runs rotate through the whole set */
+  regressionMaxIssues: number;
+  /** Rules from the repository config file that adjust settings per issue */
+  rules: ConfigRule[];
+  /** Where each setting that the repository config file can set came from */
+  settingSources: Record<ConfigSettingName, SettingSource>;
 }
 
 /**
- * Linked issue from GitHub GraphQL API
+ * Settings the repository config file can set globally and per rule
+ */
+export type ConfigSettingName =
+  | 'test-url'
+  | 'target-duration-minutes'
+  | 'qa-label'
+  | 'failure-label'
+  | 'reopen-on-failure';
+
+/**
+ * Where an effective setting came from: an action input, the repository config file or the built-in default
+ */
+export type SettingSource = 'input' | 'config' | 'default';
+
+/**
+ * Settings that can vary per issue
  */
-export interface LinkedIssue {
+export interface IssueSettings {
+  testUrl: string | null;
+  targetDurationMinutes: number;
+  qaLabel: string;
+  failureLabel: string;
+  reopenOnFailure: boolean;
+}
+
+/**
+ * A rule from the repository config file: settings applied to issues matching its labels and title pattern
+ */
+export interface ConfigRule {
+  /** Issue must carry at least one of these labels (empty = any labels) */
+  labels: string[];
+  /** Case-insensitive regex the issue title must match (null = any title) */
+  titlePattern: string | null;
+  settings: Partial<IssueSettings>;
+}
+
+/**
+ * An issue in a specific repository (which may differ from the workflow's repository)
+ */
+export interface IssueRef {
+  owner: string;
+  repo: string;
   number: number;
+}
+
+/**
+ * Linked issue from GitHub GraphQL API
+ */
+export interface LinkedIssue extends IssueRef {
   title: string;
   body: string;
   state: 'OPEN' | 'CLOSED';
@@ -78,6 +199,68 @@ export interface QATestResponse {
   testDurationSeconds?: number;
   testerData?: PlaywrightData;
   jobId?: string;
+  /** Public alias of the tester who worked on the job */
+  testerAlias?: string;
+}
+
+/**
+ * A job created for an issue; a test can take several when testers abandon jobs
+ */
+export interface JobAttempt {
+  jobId: string;
+  /** Final job status (completed, abandoned, incomplete or error) */
+  status: string;
+  costUsd?: number;
+}
+
+/**
+ * How several testers' verdicts are combined:
+ * majority = more passes than failures passes (a tie is inconclusive);
+ * unanimous = testers must agree (disagreement is inconclusive); any-fail = a single failure fails
+ */
+export type ConsensusRule = 'majority' | 'unanimous' | 'any-fail';
+
+/**
+ * Outcome of one of an issue's independent testers
+ */
+export interface TesterResult {
+  /** Job that produced the outcome (the last of its attempts) */
+  jobId: string;
+  testResult: QATestResponse;
+  /** Every job of this tester in order */
+  attempts: JobAttempt[];
+}
+
+/**
+ * Combined verdict of several testers
+ */
+export interface Consensus {
+  rule: ConsensusRule;
+  verdict: ResultHistoryEntry['verdict'];
+  /** Testers that passed */
+  passed: number;
+  /** Testers that failed */
+  failed: number;
+  /** Testers whose job ended without a verdict (not counted as votes) */
+  noVerdict: number;
+  /** Whether every tester with a verdict reached the same one */
+  agreed: boolean;
+}
+
+/**
+ * Verdict of a single test run, embedded as hidden metadata in result comments
+ */
+export interface ResultHistoryEntry {
+  verdict: 'passed' | 'failed' | 'inconclusive';
+  /** ISO timestamp when the result was posted */
+  timestamp: string;
+  /** Commit SHA that was tested */
+  commitSha: string;
+  jobId?: string;
+  /** Total cost of the test in USD, across testers and attempts (omitted when unknown) */
+  costUsd?: number;
+  /** Aliases of the testers who worked on the test (omitted when the API didn't report them) */
+  testers?: string[];
 }
 
 /**
@@ -85,12 +268,42 @@ export interface QATestResponse {
  */
 export interface IssueTestResult {
   issueNumber: number;
-  status: 'tested' | 'skipped' | 'error';
+  /** "owner/repo" of an issue outside the workflow's repository */
+  repository?: string;
+  /**
+   * pending = job created but not finished (dispatch and collect modes);
+   * inconclusive = job finished without a verdict (abandoned, incomplete or errored);
+   * planned = would be tested (dry run)
+   */
+  status: 'tested' | 'skipped' | 'error' | 'pending' | 'inconclusive' | 'planned';
   passed: boolean;
+  /** Runhuman job ID of a pending test */
+  jobId?: string;
+  /** Result of the last job */
   testResult?: QATestResponse;
+  /** Every job of the test in order, when there was more than one */
+  attempts?: JobAttempt[];
+  /** Each tester's outcome, when several tested the issue (testResult then holds the combined verdict) */
+  testers?: TesterResult[];
+  /** How the testers' verdicts were combined */
+  consensus?: Consensus;
   analysis?: AnalyzeIssueResponse;
   error?: string;
   skipReason?: string;
+  /** Whether the issue was skipped because of a cost limit */
+  budgetExceeded?: boolean;
+  /** What a dry run would have started for the issue */
+  plannedTest?: PlannedTest;
+}
+
+/**
+ * The jobs a dry run would have created for an issue
+ */
+export interface PlannedTest {
+  targetDurationMinutes: number;
+  testers: number;
+  /** Estimated cost across all testers */
+  estimatedCostUsd: number;
 }
 
 /**
@@ -101,6 +314,14 @@ export interface ActionResults {
   passedIssues: number[];
   failedIssues: number[];
   skippedIssues: number[];
+  /** Subset of skippedIssues that were skipped because of a cost limit */
+  budgetSkippedIssues: number[];
+  /** Issues whose job finished without a verdict */
+  inconclusiveIssues: number[];
+  /** Issues a dry run would have tested */
+  plannedIssues: number[];
+  /** Jobs created but not finished yet (dispatch and collect modes) */
+  pendingJobs: Array<{ issueNumber: number; jobId: string }>;
   totalCostUsd: number;
   results: IssueTestResult[];
 }
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { mockOctokit } = vi.hoisted(() => ({
+  mockOctokit: {
+    paginate: vi.fn(),
+    rest: {
+      issues: { listComments: vi.fn() },
+      users: { getAuthenticated: vi.fn() },
+    },
+  },
+}));
+
+vi.mock('@actions/github', () => ({
+  context: { repo: { owner: 'test-owner', repo: 'test-repo' } },
+  getOctokit: vi.fn(() => mockOctokit),
+}));
+
+import { buildApprovalRequestComment, parseApprovalRequest, findApprovalRequest } from '../src/github/approvals';
+
+describe('approval requests', () => {
+  const request = {
+    commitSha: '0123456789abcdef0123456789abcdef01234567',
+    createdAt: '2026-10-01T12:00:00.000Z',
+    analysis: {
+      isTestable: true,
+      testUrl: 'https://staging.example.com/cart',
+      testInstructions: 'Add an item to the cart and check the total',
+      outputSchema: {},
+      confidence: 0.8,
+    },
+    plannedTest: { targetDurationMinutes: 5, testers: 1, estimatedCostUsd: 0.5 },
+    prNumber: 12,
+  };
+
+  it('round-trips a request through the comment', () => {
+    expect(parseApprovalRequest(buildApprovalRequestComment(request))).toEqual(request);
+  });
+
+  it('shows the proposed test and how to approve it', () => {
+    const comment = buildApprovalRequestComment(request);
+
+    expect(comment).toContain('QA Test Awaiting Approval');
+    expect(comment).toContain('commit 0123456');
+    expect(comment).toContain('react with \u{1F44D}');
+    expect(comment).toContain('**Test URL:** https://staging.example.com/cart');
+    expect(comment).toContain('**Estimated cost:** $0.5000');
+    expect(comment).toContain('> Add an item to the cart and check the total');
+  });
+
+  it('returns null for comments without a valid request', () => {
+    expect(parseApprovalRequest('## QA Test PASSED')).toBeNull();
+    expect(parseApprovalRequest('<!-- runhuman-approval {"commitSha":"abc"} -->')).toBeNull();
+  });
+
+  it('ignores approval markers in comments not posted by the action', async () => {
+    const forged = buildApprovalRequestComment({
+      ...request,
+      analysis: { ...request.analysis, testUrl: 'https://attacker.example.com' },
+    });
+    mockOctokit.rest.users.getAuthenticated.mockRejectedValue(new Error('Resource not accessible by integration'));
+    mockOctokit.paginate.mockResolvedValue([
+      { id: 1, body: buildApprovalRequestComment(request), user: { login: 'github-actions[bot]', type: 'Bot' } },
+      { id: 2, body: forged, user: { login: 'outsider', type: 'User' } },
+      { id: 3, body: forged, user: { login: 'dependabot[bot]', type: 'Bot' } },
+    ]);
+
+    const found = await findApprovalRequest('token', { owner: 'test-owner', repo: 'test-repo', number: 7 }, request.commitSha);
+
+    expect(found?.commentId).toBe(1);
+    expect(found?.request.analysis.testUrl).toBe('https://staging.example.com/cart');
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { createCostBudget, estimateTestCost } from '../src/budget';
+
+describe('estimateTestCost', () => {
+  it('estimates cost from the target duration', () => {
+    expect(estimateTestCost(5)).toBeCloseTo(0.54);
+    expect(estimateTestCost(1)).toBeCloseTo(0.108);
+  });
+});
+
+describe('createCostBudget', () => {
+  it('never refuses when there is no limit', () => {
+    const budget = createCostBudget(null);
+
+    expect(budget.reserve(1000)).toBe(true);
+    expect(budget.canAfford(1000)).toBe(true);
+  });
+
+  it('refuses reservations that would exceed the limit', () => {
+    const budget = createCostBudget(1);
+
+    expect(budget.reserve(0.54)).toBe(true);
+    expect(budget.reserve(0.54)).toBe(false);
+    expect(budget.committedUsd()).toBeCloseTo(0.54);
+  });
+
+  it('replaces reservations with the actual cost when settled', () => {
+    const budget = createCostBudget(1);
+
+    budget.reserve(0.54);
+    budget.settle(0.54, 0.2);
+
+    expect(budget.committedUsd()).toBeCloseTo(0.2);
+    expect(budget.reserve(0.54)).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCheckRunOutput,
+  buildPendingCheckRunOutput,
+  getCheckConclusion,
+  mergeCheckResults,
+  parsePendingCheckResults,
+} from '../src/github/check-run';
+import { buildActionResults } from '../src/results';
+import type { IssueTestResult } from '../src/types';
+
+function tested(issueNumber: number, passed: boolean, extra: Partial<IssueTestResult> = {}): IssueTestResult {
+  return {
+    issueNumber,
+    status: 'tested',
+    passed,
+    testResult: {
+      status: 'completed',
+      costUsd: 0.25,
+      result: { success: passed, explanation: passed ? 'Works now' : 'Still broken', data: {} },
+    },
+    ...extra,
+  };
+}
+
+describe('getCheckConclusion', () => {
+  it('succeeds when every tested issue passed', () => {
+    expect(getCheckConclusion(buildActionResults([tested(1, true), { issueNumber: 2, status: 'skipped', passed: false }]))).toBe(
+      'success'
+    );
+  });
+
+  it('fails when any test failed', () => {
+    expect(getCheckConclusion(buildActionResults([tested(1, true), tested(2, false)]))).toBe('failure');
+  });
+
+  it('fails when an issue could not be verified because of an error', () => {
+    expect(
+      getCheckConclusion(buildActionResults([tested(1, true), { issueNumber: 2, status: 'error', passed: false, error: 'boom' }]))
+    ).toBe('failure');
+  });
+
+  it('is neutral when a test was inconclusive and none failed', () => {
+    const inconclusive: IssueTestResult = {
+      issueNumber: 2,
+      status: 'inconclusive',
+      passed: false,
+      testResult: { status: 'incomplete' },
+    };
+
+    expect(getCheckConclusion(buildActionResults([tested(1, true), inconclusive]))).toBe('neutral');
+    expect(getCheckConclusion(buildActionResults([tested(1, false), inconclusive]))).toBe('failure');
+  });
+
+  it('is neutral when nothing was tested', () => {
+    expect(getCheckConclusion(buildActionResults([]))).toBe('neutral');
+    expect(getCheckConclusion(buildActionResults([{ issueNumber: 1, status: 'pending', passed: false, jobId: 'job-1' }]))).toBe(
+      'neutral'
+    );
+  });
+});
+
+describe('buildCheckRunOutput', () => {
+  it('writes one section per issue with verdict, explanation, cost and links', () => {
+    const output = buildCheckRunOutput(
+      buildActionResults([
+        tested(1, false, {
+          analysis: { isTestable: true, testUrl: 'https://app.test/login', testInstructions: '', outputSchema: {}, confidence: 1 },
+          testResult: {
+            status: 'completed',
+            costUsd: 0.5,
+            result: { success: false, explanation: 'Still broken', data: {} },
+            testerData: { videoUrl: 'https://cdn.test/video.mp4', screenshots: ['https://cdn.test/1.png'] },
+          },
+        }),
+        tested(2, true),
+        { issueNumber: 3, repository: 'org/issues', status: 'skipped', passed: false, skipReason: 'Not testable' },
+      ])
+    );
+
+    expect(output.title).toBe('1 passed, 1 failed, 1 skipped');
+    expect(output.summary).toContain('| 2 | 1 | 1 | 0 | 1 | 0 | $0.7500 |');
+    expect(output.text).toContain('### ❌ Issue #1: Failed');
+    expect(output.text).toContain('> Still broken');
+    expect(output.text).toContain(
+      '**Cost:** $0.5000 · [Tested URL](https://app.test/login) · [Recording](https://cdn.test/video.mp4) · [Screenshot 1](https://cdn.test/1.png)'
+    );
+    expect(output.text).toContain('### ✅ Issue #2: Passed');
+    expect(output.text).toContain('### ⏭️ Issue org/issues#3: Skipped\n\nNot testable');
+  });
+
+  it('explains an empty run', () => {
+    expect(buildCheckRunOutput(buildActionResults([]))).toEqual({
+      title: 'No issues to test',
+      summary: 'No linked issues were found for this commit.',
+    });
+  });
+});
+
+describe('pending check runs', () => {
+  const pending: IssueTestResult = { issueNumber: 2, status: 'pending', passed: false, jobId: 'job-2' };
+
+  it('stores the results of a dispatch run in the output of the check it leaves in progress', () => {
+    const output = buildPendingCheckRunOutput(buildActionResults([tested(1, true), pending]));
+
+    expect(output?.title).toBe('1 passed, 0 failed, 1 pending');
+    expect(output?.text).toContain('### \u23F3 Issue #2: Pending');
+
+    const stored = parsePendingCheckResults(output?.text ?? '');
+    expect(stored?.map((r) => [r.issueNumber, r.status])).toEqual([
+      [1, 'tested'],
+      [2, 'pending'],
+    ]);
+    expect(stored?.[0].testResult?.result?.explanation).toBe('Works now');
+    expect(stored?.[0].testResult?.costUsd).toBe(0.25);
+  });
+
+  it('completes with the verdicts collected later', () => {
+    const stored = parsePendingCheckResults(buildPendingCheckRunOutput(buildActionResults([tested(1, true), pending]))?.text ?? '');
+
+    const merged = mergeCheckResults(stored ?? [], [tested(2, false, { jobId: 'job-2' })]);
+
+    expect(merged.map((r) => r.status)).toEqual(['tested', 'tested']);
+    expect(getCheckConclusion(buildActionResults(merged))).toBe('failure');
+  });
+
+  it('keeps results of other repositories apart', () => {
+    const merged = mergeCheckResults(
+      [pending, { ...pending, repository: 'org/issues' }],
+      [tested(2, true, { repository: 'org/issues' })]
+    );
+
+    expect(merged.map((r) => r.status)).toEqual(['pending', 'tested']);
+  });
+
+  it('returns null for output without stored results', () => {
+    expect(parsePendingCheckResults('### Issue #1: Passed')).toBeNull();
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockOctokit } = vi.hoisted(() => ({
+  mockOctokit: {
+    paginate: vi.fn(),
+    rest: {
+      issues: {
+        listForRepo: vi.fn(),
+        listComments: vi.fn(),
+        createComment: vi.fn(),
+        updateComment: vi.fn(),
+        addLabels: vi.fn(),
+        removeLabel: vi.fn(),
+        get: vi.fn(),
+        update: vi.fn(),
+      },
+      users: { getAuthenticated: vi.fn() },
+      checks: { get: vi.fn(), update: vi.fn() },
+    },
+  },
+}));
+
+vi.mock('@actions/github', () => ({
+  context: { repo: { owner: 'test-owner', repo: 'test-repo' } },
+  getOctokit: vi.fn(() => mockOctokit),
+}));
+
+vi.mock('../src/api/run-test', () => ({
+  checkQATestResult: vi.fn(),
+  startQATest: vi.fn(),
+}));
+
+import { collectPendingResults, dispatchApprovedIssues } from '../src/collect';
+import { checkQATestResult, startQATest } from '../src/api/run-test';
+import { buildJobRecordComment, parseJobRecord, type JobRecord } from '../src/github/job-records';
+import { buildPendingCheckRunOutput, parsePendingCheckResults } from '../src/github/check-run';
+import { buildActionResults } from '../src/results';
+import { createCostBudget } from '../src/budget';
+import type { ParsedInputs } from '../src/types';
+
+const inputs = {
+  githubToken: 'token',
+  apiKey: 'qa_live_test',
+  apiUrl: 'https://runhuman.com',
+  apiMaxAttempts: 1,
+  githubRepo: 'test-owner/test-repo',
+  mode: 'collect',
+  pendingLabel: 'qa-pending',
+  awaitingApprovalLabel: 'qa-awaiting-approval',
+  failureLabel: 'qa-failed',
+  inconclusiveLabel: '',
+  qaLabel: 'qa-test',
+  testUrl: null,
+  targetDurationMinutes: 5,
+  reopenOnFailure: true,
+  removeFailureLabelOnSuccess: true,
+  stickyComment: false,
+  commentTemplate: null,
+  maxConcurrency: 1,
+  maxAttempts: 1,
+  inconclusivePolicy: 'label',
+  maxCostUsd: null,
+  maxTotalCostUsd: null,
+  rules: [],
+} as unknown as ParsedInputs;
+
+const record: JobRecord = {
+  jobId: 'job_1',
+  commitSha: '0123456789abcdef0123456789abcdef01234567',
+  createdAt: '2026-10-01T12:00:00.000Z',
+  analysis: {
+    isTestable: true,
+    testUrl: 'https://staging.example.com/cart',
+    testInstructions: 'Add an item to the cart and check the total',
+    outputSchema: {},
+    confidence: 0.9,
+  },
+  targetDurationMinutes: 5,
+};
+
+const pendingIssue = {
+  number: 7,
+  title: 'Cart total is wrong',
+  body: 'The total ignores discounts',
+  state: 'closed',
+  labels: [{ name: 'qa-pending' }],
+};
+
+/**
+ * Serve the labeled issues and each issue's comments through paginate
+ */
+function mockIssues(issues: unknown[], comments: unknown[]) {
+  mockOctokit.paginate.mockImplementation(async (method: unknown) =>
+    method === mockOctokit.rest.issues.listForRepo ? issues : comments
+  );
+}
+
+function recordComment(jobRecord: JobRecord) {
+  return { id: 100, body: buildJobRecordComment(jobRecord), user: { login: 'github-actions[bot]', type: 'Bot' } };
+}
+
+function removedLabels(): string[] {
+  return mockOctokit.rest.issues.removeLabel.mock.calls.map(([params]) => params.name);
+}
+
+function postedComments(): string[] {
+  return mockOctokit.rest.issues.createComment.mock.calls.map(([params]) => params.body);
+}
+
+describe('collectPendingResults', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOctokit.rest.users.getAuthenticated.mockRejectedValue(new Error('Resource not accessible by integration'));
+    mockOctokit.rest.issues.get.mockResolvedValue({ data: { state: 'closed' } });
+  });
+
+  it('posts the result of a finished job and removes the pending label', async () => {
+    mockIssues([pendingIssue], [recordComment(record)]);
+    vi.mocked(checkQATestResult).mockResolvedValue({
+      status: 'completed',
+      result: { success: true, explanation: 'The total includes the discount', data: {} },
+      costUsd: 0.4,
+    });
+
+    const [result] = await collectPendingResults(inputs, createCostBudget(null));
+
+    expect(result).toMatchObject({ issueNumber: 7, status: 'tested', passed: true, jobId: 'job_1' });
+    expect(postedComments()).toHaveLength(1);
+    expect(postedComments()[0]).toContain('The total includes the discount');
+    expect(removedLabels()).toContain('qa-pending');
+  });
+
+  it('leaves an issue pending while its job is still running', async () => {
+    mockIssues([pendingIssue], [recordComment(record)]);
+    vi.mocked(checkQATestResult).mockResolvedValue(null);
+
+    const [result] = await collectPendingResults(inputs, createCostBudget(null));
+
+    expect(result).toMatchObject({ issueNumber: 7, status: 'pending', jobId: 'job_1' });
+    expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(mockOctokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+  });
+
+  it('removes the pending label when no job was recorded by the action', async () => {
+    const forged = { ...recordComment(record), user: { login: 'outsider', type: 'User' } };
+    mockIssues([pendingIssue], [forged]);
+
+    const [result] = await collectPendingResults(inputs, createCostBudget(null));
+
+    expect(result).toMatchObject({ status: 'skipped', skipReason: 'No recorded job found' });
+    expect(removedLabels()).toEqual(['qa-pending']);
+    expect(checkQATestResult).not.toHaveBeenCalled();
+  });
+
+  it('replaces an abandoned job with a new one and keeps the issue pending', async () => {
+    mockIssues([pendingIssue], [recordComment(record)]);
+    vi.mocked(checkQATestResult).mockResolvedValue({ status: 'abandoned' });
+    vi.mocked(startQATest).mockResolvedValue('job_2');
+
+    const [result] = await collectPendingResults({ ...inputs, maxAttempts: 2 }, createCostBudget(null));
+
+    expect(result).toMatchObject({ status: 'pending', jobId: 'job_2' });
+    const newRecord = parseJobRecord(postedComments()[0]);
+    expect(newRecord).toMatchObject({ jobId: 'job_2', attempts: [{ jobId: 'job_1', status: 'abandoned' }] });
+    expect(mockOctokit.rest.issues.removeLabel).not.toHaveBeenCalled();
+  });
+
+  it('reports the inconclusive result when the budget has no room for a new job', async () => {
+    mockIssues([pendingIssue], [recordComment(record)]);
+    vi.mocked(checkQATestResult).mockResolvedValue({ status: 'abandoned' });
+
+    const [result] = await collectPendingResults({ ...inputs, maxAttempts: 2 }, createCostBudget(0.1));
+
+    expect(startQATest).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ status: 'inconclusive', jobId: 'job_1' });
+    expect(removedLabels()).toContain('qa-pending');
+  });
+
+  it('completes the check run of a dispatch once its last job has a verdict', async () => {
+    const dispatched = buildActionResults([{ issueNumber: 7, status: 'pending', passed: false, jobId: 'job_1' }]);
+    mockOctokit.rest.checks.get.mockResolvedValue({
+      data: { status: 'in_progress', output: { text: buildPendingCheckRunOutput(dispatched)?.text } },
+    });
+    mockIssues([pendingIssue], [recordComment({ ...record, checkRunId: 55 })]);
+    vi.mocked(checkQATestResult).mockResolvedValue({
+      status: 'completed',
+      result: { success: false, explanation: 'The discount is still ignored', data: {} },
+    });
+
+    await collectPendingResults(inputs, createCostBudget(null));
+
+    expect(mockOctokit.rest.checks.update).toHaveBeenCalledTimes(1);
+    expect(mockOctokit.rest.checks.update.mock.calls[0][0]).toMatchObject({
+      check_run_id: 55,
+      status: 'completed',
+      conclusion: 'failure',
+    });
+  });
+
+  it('keeps the check run in progress while other jobs of the dispatch are pending', async () => {
+    const dispatched = buildActionResults([
+      { issueNumber: 7, status: 'pending', passed: false, jobId: 'job_1' },
+      { issueNumber: 8, status: 'pending', passed: false, jobId: 'job_8' },
+    ]);
+    mockOctokit.rest.checks.get.mockResolvedValue({
+      data: { status: 'in_progress', output: { text: buildPendingCheckRunOutput(dispatched)?.text } },
+    });
+    mockIssues([pendingIssue], [recordComment({ ...record, checkRunId: 55 })]);
+    vi.mocked(checkQATestResult).mockResolvedValue({
+      status: 'completed',
+      result: { success: true, explanation: 'Works', data: {} },
+    });
+
+    await collectPendingResults(inputs, createCostBudget(null));
+
+    const [[update]] = mockOctokit.rest.checks.update.mock.calls;
+    expect(update).toMatchObject({ check_run_id: 55, status: 'in_progress' });
+    expect(parsePendingCheckResults(update.output.text)?.map((result) => [result.issueNumber, result.status])).toEqual([
+      [7, 'tested'],
+      [8, 'pending'],
+    ]);
+  });
+});
+
+describe('dispatchApprovedIssues', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOctokit.rest.users.getAuthenticated.mockRejectedValue(new Error('Resource not accessible by integration'));
+  });
+
+  it('removes the awaiting label from issues without an approval request', async () => {
+    mockIssues([{ ...pendingIssue, labels: [{ name: 'qa-awaiting-approval' }] }], []);
+
+    const [result] = await dispatchApprovedIssues(inputs, createCostBudget(null));
+
+    expect(result).toMatchObject({ issueNumber: 7, status: 'skipped', skipReason: 'No approval request found' });
+    expect(removedLabels()).toEqual(['qa-awaiting-approval']);
+    expect(startQATest).not.toHaveBeenCalled();
+  });
+});
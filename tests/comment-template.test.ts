@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { buildTestResultComment } from '../src/templates/comment-template';
+import {
+  buildTestResultComment,
+  parseResultComment,
+  mergeResultHistory,
+  countVerdictChanges,
+} from '../src/templates/comment-template';
 import type { QATestResponse, AnalyzeIssueResponse } from '../src/types';
 
 describe('buildTestResultComment', () => {
@@ -56,6 +61,82 @@ describe('buildTestResultComment', () => {
     expect(comment).toContain('This issue has been reopened because the QA test failed.');
   });
 
+  it('should build an inconclusive comment when the tester abandoned the test', () => {
+    const testResult: QATestResponse = {
+      status: 'abandoned',
+      error: 'Tester left the session',
+      jobId: 'job_2',
+    };
+
+    const comment = buildTestResultComment(testResult, mockAnalysis, { commitSha: 'abcdef1234567890' });
+
+    expect(comment).toContain('QA Test INCONCLUSIVE');
+    expect(comment).toContain('The tester abandoned the test: Tester left the session');
+    expect(comment).toContain('the issue was left as it was');
+    expect(comment).not.toContain('reopened');
+    expect(parseResultComment(comment)?.latest.verdict).toBe('inconclusive');
+  });
+
+  it('should list attempts and total their cost when jobs were re-dispatched', () => {
+    const testResult: QATestResponse = {
+      status: 'completed',
+      result: { success: true, explanation: 'Works now.', data: {} },
+      costUsd: 0.3,
+      jobId: 'job_2',
+    };
+
+    const comment = buildTestResultComment(testResult, mockAnalysis, {
+      attempts: [
+        { jobId: 'job_1', status: 'abandoned', costUsd: 0.05 },
+        { jobId: 'job_2', status: 'completed', costUsd: 0.3 },
+      ],
+    });
+
+    expect(comment).toContain('**Cost:** $0.3500 (2 attempts)');
+    expect(comment).toContain('### Attempts');
+    expect(comment).toContain('| 1 | `job_1` | abandoned | $0.0500 |');
+    expect(comment).toContain('| 2 | `job_2` | completed | $0.3000 |');
+  });
+
+  it('should show each tester side by side with whether they agreed', () => {
+    const passed: QATestResponse = {
+      status: 'completed',
+      result: { success: true, explanation: 'Saving works.', data: {} },
+      costUsd: 0.25,
+    };
+    const failed: QATestResponse = {
+      status: 'completed',
+      result: { success: false, explanation: 'Saving fails | on Safari\nwith an error', data: {} },
+      costUsd: 0.25,
+    };
+    const combined: QATestResponse = {
+      status: 'completed',
+      result: { success: true, explanation: 'Passed by majority rule: 2 passed, 1 failed', data: {} },
+      costUsd: 0.75,
+    };
+
+    const comment = buildTestResultComment(combined, mockAnalysis, {
+      testers: [
+        { jobId: 'job_1', testResult: passed, attempts: [{ jobId: 'job_1', status: 'completed', costUsd: 0.25 }] },
+        { jobId: 'job_2', testResult: failed, attempts: [{ jobId: 'job_2', status: 'completed', costUsd: 0.25 }] },
+        { jobId: 'job_3', testResult: passed, attempts: [{ jobId: 'job_3', status: 'completed', costUsd: 0.25 }] },
+      ],
+      consensus: { rule: 'majority', verdict: 'passed', passed: 2, failed: 1, noVerdict: 0, agreed: false },
+      attempts: [
+        { jobId: 'job_1', status: 'completed', costUsd: 0.25 },
+        { jobId: 'job_2', status: 'completed', costUsd: 0.25 },
+        { jobId: 'job_3', status: 'completed', costUsd: 0.25 },
+      ],
+    });
+
+    expect(comment).toContain('QA Test PASSED');
+    expect(comment).toContain('**Cost:** $0.7500 (3 testers)');
+    expect(comment).toContain('**Consensus (majority):** \u26A0\uFE0F Testers disagreed');
+    expect(comment).toContain('| 1 | \u2705 Passed | Saving works. |');
+    expect(comment).toContain('| 2 | \u274C Failed | Saving fails \\| on Safari<br>with an error |');
+    expect(comment).not.toContain('### Attempts');
+  });
+
   it('should include screenshots when available', () => {
     const testResult: QATestResponse = {
       status: 'completed',
@@ -123,4 +204,148 @@ describe('buildTestResultComment', () => {
     expect(comment).toContain('Yes'); // true formatted
     expect(comment).toContain('No'); // false formatted
   });
+
+  it('should embed hidden result metadata', () => {
+    const testResult: QATestResponse = {
+      status: 'completed',
+      result: { success: true, explanation: 'Test passed.', data: {} },
+      jobId: 'job_1',
+    };
+
+    const comment = buildTestResultComment(testResult, mockAnalysis, {
+      commitSha: 'abcdef1234567890',
+      timestamp: '2026-10-01T12:00:00.000Z',
+    });
+
+    expect(parseResultComment(comment)).toEqual({
+      latest: {
+        verdict: 'passed',
+        timestamp: '2026-10-01T12:00:00.000Z',
+        commitSha: 'abcdef1234567890',
+        jobId: 'job_1',
+      },
+      history: [],
+    });
+  });
+
+  it('should render earlier verdicts as collapsed history', () => {
+    const testResult: QATestResponse = {
+      status: 'completed',
+      result: { success: true, explanation: 'Test passed.', data: {} },
+    };
+    const history = [
+      { verdict: 'failed' as const, timestamp: '2026-09-30T08:15:00.000Z', commitSha: '1111111aaaa' },
+      { verdict: 'passed' as const, timestamp: '2026-09-29T08:15:00.000Z', commitSha: '2222222bbbb' },
+    ];
+
+    const comment = buildTestResultComment(testResult, mockAnalysis, { commitSha: '3333333cccc', history });
+
+    expect(comment).toContain('<summary>Previous results (2)</summary>');
+    expect(comment).toContain('| 2026-09-30 08:15 UTC | `1111111` | \u274C Failed |');
+    expect(comment).toContain('| 2026-09-29 08:15 UTC | `2222222` | \u2705 Passed |');
+    expect(parseResultComment(comment)?.history).toEqual(history);
+  });
+
+  it('should show the tester and cost of earlier results', () => {
+    const testResult: QATestResponse = {
+      status: 'completed',
+      result: { success: true, explanation: 'Test passed.', data: {} },
+      costUsd: 0.5,
+      testerAlias: 'Blue Heron',
+    };
+    const history = [
+      { verdict: 'passed' as const, timestamp: '2026-09-30T08:15:00.000Z', commitSha: '1111111aaaa', jobId: 'job_1', testers: ['Red Fox'], costUsd: 0.25 },
+      { verdict: 'failed' as const, timestamp: '2026-09-29T08:15:00.000Z', commitSha: '2222222bbbb', testers: ['Red Fox', 'Grey Owl'], costUsd: 0.9 },
+      { verdict: 'failed' as const, timestamp: '2026-09-28T08:15:00.000Z', commitSha: '4444444dddd', jobId: 'job_0' },
+    ];
+
+    const comment = buildTestResultComment(testResult, mockAnalysis, { commitSha: '3333333cccc', history });
+
+    expect(comment).toContain('| Date | Commit | Verdict | Tester | Cost |');
+    expect(comment).toContain('| 2026-09-30 08:15 UTC | `1111111` | \u2705 Passed | Red Fox | $0.2500 |');
+    expect(comment).toContain('| 2026-09-29 08:15 UTC | `2222222` | \u274C Failed | Red Fox, Grey Owl | $0.9000 |');
+    expect(comment).toContain('| 2026-09-28 08:15 UTC | `4444444` | \u274C Failed | N/A | N/A |');
+    expect(parseResultComment(comment)?.latest).toMatchObject({ costUsd: 0.5, testers: ['Blue Heron'] });
+  });
+
+  it('should flag a test whose verdicts alternated as flaky', () => {
+    const testResult: QATestResponse = {
+      status: 'completed',
+      result: { success: false, explanation: 'Broken again.', data: {} },
+    };
+    const history = [
+      { verdict: 'passed' as const, timestamp: '2026-09-30T08:15:00.000Z', commitSha: '1111111aaaa' },
+      { verdict: 'failed' as const, timestamp: '2026-09-29T08:15:00.000Z', commitSha: '2222222bbbb' },
+    ];
+
+    const comment = buildTestResultComment(testResult, mockAnalysis, { commitSha: '3333333cccc', history });
+
+    expect(comment).toContain('**Possibly flaky:** the verdict changed 2 times over the last 3 results.');
+  });
+
+  it('should not flag a test that was fixed once as flaky', () => {
+    const testResult: QATestResponse = {
+      status: 'completed',
+      result: { success: true, explanation: 'Fixed.', data: {} },
+    };
+    const history = [
+      { verdict: 'failed' as const, timestamp: '2026-09-30T08:15:00.000Z', commitSha: '1111111aaaa' },
+      { verdict: 'failed' as const, timestamp: '2026-09-29T08:15:00.000Z', commitSha: '2222222bbbb' },
+    ];
+
+    const comment = buildTestResultComment(testResult, mockAnalysis, { commitSha: '3333333cccc', history });
+
+    expect(comment).not.toContain('Possibly flaky');
+  });
+
+  it('should not treat other comments as result comments', () => {
+    expect(parseResultComment('Looks good to me!')).toBeNull();
+  });
+
+  it('should render a custom template with issue and PR fields', () => {
+    const testResult: QATestResponse = {
+      status: 'completed',
+      result: { success: false, explanation: 'Still broken.', data: { issueResolved: false } },
+      costUsd: 0.3,
+    };
+
+    const comment = buildTestResultComment(testResult, mockAnalysis, {
+      commitSha: 'abcdef1234567890',
+      template: '## {{verdict}} for #{{issue.number}} ({{shortSha}}){{#if pr}} via PR #{{pr.number}}{{/if}}\n{{#each dataFields}}{{name}}={{display}}{{/each}}\n{{formatted.cost}}',
+      issue: { owner: 'acme', repo: 'web', number: 12, title: 'Login broken', body: '', state: 'CLOSED', labels: [] },
+      prContext: { number: 34, title: 'Fix login', body: '', author: 'dev', comments: [] },
+    });
+
+    expect(comment).toContain('## FAILED for #12 (abcdef1) via PR #34');
+    expect(comment).toContain('issueResolved=\u274C No');
+    expect(comment).toContain('$0.3000');
+    expect(comment).not.toContain('Powered by');
+    expect(parseResultComment(comment)?.latest.verdict).toBe('failed');
+  });
+});
+
+describe('countVerdictChanges', () => {
+  it('should count flips between passed and failed, ignoring inconclusive results', () => {
+    const entry = (verdict: 'passed' | 'failed' | 'inconclusive') => ({ verdict, timestamp: '', commitSha: '' });
+
+    expect(countVerdictChanges([entry('passed'), entry('inconclusive'), entry('passed')])).toBe(0);
+    expect(countVerdictChanges([entry('passed'), entry('failed'), entry('failed')])).toBe(1);
+    expect(countVerdictChanges([entry('failed'), entry('inconclusive'), entry('passed'), entry('failed')])).toBe(2);
+  });
+});
+
+describe('mergeResultHistory', () => {
+  it('should list every result once, newest first', () => {
+    const first = { verdict: 'failed' as const, timestamp: '2026-09-01T00:00:00.000Z', commitSha: 'aaa', jobId: 'job_1' };
+    const second = { verdict: 'passed' as const, timestamp: '2026-09-02T00:00:00.000Z', commitSha: 'bbb', jobId: 'job_2' };
+    const third = { verdict: 'failed' as const, timestamp: '2026-09-03T00:00:00.000Z', commitSha: 'ccc' };
+
+    const history = mergeResultHistory([
+      { latest: first, history: [] },
+      { latest: second, history: [first] },
+      { latest: third, history: [second, first] },
+    ]);
+
+    expect(history).toEqual([third, second, first]);
+  });
 });
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency, createLock } from '../src/concurrency';
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('mapWithConcurrency', () => {
+  it('returns results in input order regardless of completion order', async () => {
+    const result = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await delay(ms);
+      return ms;
+    });
+
+    expect(result).toEqual([30, 10, 20]);
+  });
+
+  it('never runs more than the limit at once', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(5);
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('handles an empty list', async () => {
+    const result = await mapWithConcurrency([], 3, async (item) => item);
+    expect(result).toEqual([]);
+  });
+});
+
+describe('createLock', () => {
+  it('runs critical sections one at a time in request order', async () => {
+    const lock = createLock();
+    const events: string[] = [];
+
+    await Promise.all(
+      ['a', 'b', 'c'].map((name, i) =>
+        lock(async () => {
+          events.push(`${name}:start`);
+          await delay(10 - i * 3);
+          events.push(`${name}:end`);
+        })
+      )
+    );
+
+    expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end', 'c:start', 'c:end']);
+  });
+
+  it('keeps working after a critical section throws', async () => {
+    const lock = createLock();
+
+    await expect(lock(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(lock(async () => 'ok')).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { decideConsensus, describeConsensus, combineTesterResults } from '../src/consensus';
+import type { QATestResponse, TesterResult } from '../src/types';
+
+function verdict(success: boolean, explanation = success ? 'Works' : 'Broken'): QATestResponse {
+  return { status: 'completed', result: { success, explanation, data: {} }, costUsd: 0.25 };
+}
+
+const pass = verdict(true);
+const fail = verdict(false);
+const abandoned: QATestResponse = { status: 'abandoned', costUsd: 0.05 };
+
+describe('decideConsensus', () => {
+  it('passes by majority and treats a tie as inconclusive', () => {
+    expect(decideConsensus([pass, pass, fail], 'majority')).toMatchObject({
+      verdict: 'passed',
+      passed: 2,
+      failed: 1,
+      agreed: false,
+    });
+    expect(decideConsensus([pass, fail, fail], 'majority').verdict).toBe('failed');
+    expect(decideConsensus([pass, fail], 'majority').verdict).toBe('inconclusive');
+  });
+
+  it('requires agreement with the unanimous rule', () => {
+    expect(decideConsensus([pass, pass], 'unanimous')).toMatchObject({ verdict: 'passed', agreed: true });
+    expect(decideConsensus([fail, fail], 'unanimous').verdict).toBe('failed');
+    expect(decideConsensus([pass, pass, fail], 'unanimous').verdict).toBe('inconclusive');
+  });
+
+  it('fails on a single failure with the any-fail rule', () => {
+    expect(decideConsensus([pass, pass, fail], 'any-fail').verdict).toBe('failed');
+    expect(decideConsensus([pass, pass], 'any-fail').verdict).toBe('passed');
+  });
+
+  it('does not count testers without a verdict', () => {
+    expect(decideConsensus([pass, abandoned], 'unanimous')).toMatchObject({
+      verdict: 'passed',
+      passed: 1,
+      failed: 0,
+      noVerdict: 1,
+      agreed: true,
+    });
+    expect(decideConsensus([abandoned, abandoned], 'any-fail')).toMatchObject({ verdict: 'inconclusive', agreed: false });
+  });
+});
+
+describe('describeConsensus', () => {
+  it('describes agreement, a vote and a missing verdict', () => {
+    expect(describeConsensus(decideConsensus([pass, pass, pass], 'majority'))).toBe('Passed: all 3 testers agreed');
+    expect(describeConsensus(decideConsensus([pass, pass, fail], 'majority'))).toBe(
+      'Passed by majority rule: 2 passed, 1 failed'
+    );
+    expect(describeConsensus(decideConsensus([pass, fail, abandoned], 'majority'))).toBe(
+      '1 passed, 1 failed, 1 without a verdict under the majority rule'
+    );
+  });
+});
+
+describe('combineTesterResults', () => {
+  function tester(jobId: string, testResult: QATestResponse, attempts?: TesterResult['attempts']): TesterResult {
+    return { jobId, testResult, attempts: attempts ?? [{ jobId, status: testResult.status, costUsd: testResult.costUsd }] };
+  }
+
+  it('takes the details of the first tester matching the verdict and totals the cost', () => {
+    const testers = [
+      tester('job_1', verdict(false, 'Still broken')),
+      tester('job_2', { ...verdict(true, 'Fixed'), testerData: { videoUrl: 'https://video/2' } as QATestResponse['testerData'] }),
+      tester('job_4', verdict(true, 'Fixed too'), [
+        { jobId: 'job_3', status: 'abandoned', costUsd: 0.05 },
+        { jobId: 'job_4', status: 'completed', costUsd: 0.25 },
+      ]),
+    ];
+    const consensus = decideConsensus(testers.map((t) => t.testResult), 'majority');
+
+    const combined = combineTesterResults(testers, consensus);
+
+    expect(combined.status).toBe('completed');
+    expect(combined.result?.success).toBe(true);
+    expect(combined.result?.explanation).toBe('Passed by majority rule: 2 passed, 1 failed');
+    expect(combined.jobId).toBe('job_2');
+    expect(combined.testerData?.videoUrl).toBe('https://video/2');
+    expect(combined.costUsd).toBeCloseTo(0.8);
+  });
+
+  it('has no result when the testers reached no verdict', () => {
+    const testers = [tester('job_1', pass), tester('job_2', fail)];
+
+    const combined = combineTesterResults(testers, decideConsensus([pass, fail], 'unanimous'));
+
+    expect(combined.status).toBe('no-consensus');
+    expect(combined.result).toBeUndefined();
+    expect(combined.error).toBe('1 passed, 1 failed under the unanimous rule');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockContext, mockOctokit } = vi.hoisted(() => ({
+  mockContext: {
+    repo: { owner: 'test-owner', repo: 'test-repo' },
+    eventName: 'push',
+    payload: {} as Record<string, unknown>,
+  },
+  mockOctokit: {
+    rest: {
+      repos: { listDeployments: vi.fn(), listDeploymentStatuses: vi.fn() },
+    },
+  },
+}));
+
+vi.mock('@actions/github', () => ({
+  context: mockContext,
+  getOctokit: vi.fn(() => mockOctokit),
+}));
+
+import { findDeploymentUrl, getDeploymentEventUrl, joinDeploymentUrl } from '../src/github/deployments';
+
+describe('joinDeploymentUrl', () => {
+  it('returns the base URL when there is no suggestion', () => {
+    expect(joinDeploymentUrl('https://pr-12.preview.app', null)).toBe('https://pr-12.preview.app');
+  });
+
+  it('moves the path of a suggested absolute URL onto the deployment', () => {
+    expect(joinDeploymentUrl('https://pr-12.preview.app', 'https://myapp.com/settings?tab=profile#email')).toBe(
+      'https://pr-12.preview.app/settings?tab=profile#email'
+    );
+  });
+
+  it('joins a bare path', () => {
+    expect(joinDeploymentUrl('https://pr-12.preview.app/', '/dashboard')).toBe('https://pr-12.preview.app/dashboard');
+    expect(joinDeploymentUrl('https://pr-12.preview.app', 'dashboard')).toBe('https://pr-12.preview.app/dashboard');
+  });
+
+  it('keeps a path prefix on the deployment URL', () => {
+    expect(joinDeploymentUrl('https://preview.app/pr-12', '/settings')).toBe('https://preview.app/pr-12/settings');
+  });
+
+  it('does not repeat a prefix the suggestion already has', () => {
+    expect(joinDeploymentUrl('https://preview.app/pr-12/', 'https://preview.app/pr-12/settings')).toBe(
+      'https://preview.app/pr-12/settings'
+    );
+  });
+
+  it('returns the base URL for a suggestion at the root', () => {
+    expect(joinDeploymentUrl('https://preview.app/pr-12', 'https://myapp.com/')).toBe('https://preview.app/pr-12');
+  });
+});
+
+describe('getDeploymentEventUrl', () => {
+  beforeEach(() => {
+    mockContext.eventName = 'deployment_status';
+    mockContext.payload = {
+      deployment: { environment: 'Preview' },
+      deployment_status: { state: 'success', environment_url: 'https://pr-12.preview.app' },
+    };
+  });
+
+  it('uses the URL of a successful deployment_status event', () => {
+    expect(getDeploymentEventUrl(null)).toBe('https://pr-12.preview.app');
+    expect(getDeploymentEventUrl('preview')).toBe('https://pr-12.preview.app');
+  });
+
+  it('ignores events for other environments', () => {
+    expect(getDeploymentEventUrl('production')).toBeNull();
+  });
+
+  it('ignores unsuccessful deployments', () => {
+    mockContext.payload.deployment_status = { state: 'failure', environment_url: 'https://pr-12.preview.app' };
+    expect(getDeploymentEventUrl(null)).toBeNull();
+  });
+
+  it('ignores other events', () => {
+    mockContext.eventName = 'push';
+    expect(getDeploymentEventUrl(null)).toBeNull();
+  });
+});
+
+describe('findDeploymentUrl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockContext.eventName = 'push';
+    mockContext.payload = {};
+  });
+
+  it('returns the newest deployment whose latest status is successful', async () => {
+    mockOctokit.rest.repos.listDeployments.mockResolvedValue({ data: [{ id: 3 }, { id: 2 }, { id: 1 }] });
+    mockOctokit.rest.repos.listDeploymentStatuses.mockImplementation(async ({ deployment_id }: { deployment_id: number }) => ({
+      data:
+        deployment_id === 3
+          ? [{ state: 'failure', environment_url: '' }]
+          : [{ state: 'success', environment_url: `https://deploy-${deployment_id}.preview.app` }],
+    }));
+
+    const url = await findDeploymentUrl('token', 'abc1234', 'preview');
+
+    expect(url).toBe('https://deploy-2.preview.app');
+    expect(mockOctokit.rest.repos.listDeployments).toHaveBeenCalledWith(
+      expect.objectContaining({ sha: 'abc1234', environment: 'preview' })
+    );
+    expect(mockOctokit.rest.repos.listDeploymentStatuses).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns null when no deployment succeeded', async () => {
+    mockOctokit.rest.repos.listDeployments.mockResolvedValue({ data: [] });
+
+    expect(await findDeploymentUrl('token', 'abc1234', 'preview')).toBeNull();
+  });
+
+  it('skips the API without an environment', async () => {
+    expect(await findDeploymentUrl('token', 'abc1234', null)).toBeNull();
+    expect(mockOctokit.rest.repos.listDeployments).not.toHaveBeenCalled();
+  });
+
+  it('prefers the triggering deployment_status event', async () => {
+    mockContext.eventName = 'deployment_status';
+    mockContext.payload = {
+      deployment: { environment: 'preview' },
+      deployment_status: { state: 'success', environment_url: 'https://event.preview.app' },
+    };
+
+    expect(await findDeploymentUrl('token', 'abc1234', 'preview')).toBe('https://event.preview.app');
+    expect(mockOctokit.rest.repos.listDeployments).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock @actions/core before importing the module
 vi.mock('@actions/core', () => ({
@@ -174,6 +177,51 @@ describe('parseInputs', () => {
     expect(() => parseInputs()).toThrow('issue-number must be a positive integer');
   });
 
+  it('should parse issue-numbers and issue-query for bulk testing', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'issue-numbers': '12, #15,12,,20',
+        'issue-query': ' label:qa-test is:closed closed:>2026-10-01 ',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.issueNumbers).toEqual([12, 15, 20]);
+    expect(result.issueQuery).toBe('label:qa-test is:closed closed:>2026-10-01');
+  });
+
+  it('should default to no issue list or query', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.issueNumbers).toEqual([]);
+    expect(result.issueQuery).toBeNull();
+  });
+
+  it('should throw error for invalid issue-numbers', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'issue-numbers': '12, 1.5',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('issue-numbers must be a comma-separated list of positive integers');
+  });
+
   it('should parse test-url when provided', () => {
     vi.mocked(core.getInput).mockImplementation((name: string) => {
       const inputs: Record<string, string> = {
@@ -218,6 +266,31 @@ describe('parseInputs', () => {
     expect(result.testUrl).toBeNull();
   });
 
+  it('should parse environment when provided', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        environment: 'preview',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(parseInputs().environment).toBe('preview');
+  });
+
+  it('should set environment to null when not provided', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(parseInputs().environment).toBeNull();
+  });
+
   it('should throw error for invalid test-url', () => {
     vi.mocked(core.getInput).mockImplementation((name: string) => {
       const inputs: Record<string, string> = {
@@ -243,4 +316,511 @@ describe('parseInputs', () => {
 
     expect(() => parseInputs()).toThrow('test-url must be a valid URL');
   });
+
+  it('should default max-concurrency to 3', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.maxConcurrency).toBe(3);
+  });
+
+  it('should throw error for invalid max-concurrency', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'max-concurrency': '0',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('max-concurrency must be a number between 1 and 20');
+  });
+
+  it('should parse cost limits when provided', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'max-total-cost-usd': '5',
+        'max-cost-usd': '0.75',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.maxTotalCostUsd).toBe(5);
+    expect(result.maxCostUsd).toBe(0.75);
+  });
+
+  it('should set cost limits to null when not provided', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.maxTotalCostUsd).toBeNull();
+    expect(result.maxCostUsd).toBeNull();
+  });
+
+  it('should throw error for invalid max-total-cost-usd', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'max-total-cost-usd': 'lots',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('max-total-cost-usd must be a positive number');
+  });
+
+  it('should use default polling configuration', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.pollIntervalSeconds).toBe(15);
+    expect(result.pollBackoffMultiplier).toBe(1.5);
+    expect(result.pollMaxIntervalSeconds).toBe(60);
+    expect(result.maxWaitMinutes).toBeNull();
+  });
+
+  it('should parse custom polling configuration', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'poll-interval-seconds': '30',
+        'poll-backoff-multiplier': '2',
+        'poll-max-interval-seconds': '300',
+        'max-wait-minutes': '90',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.pollIntervalSeconds).toBe(30);
+    expect(result.pollBackoffMultiplier).toBe(2);
+    expect(result.pollMaxIntervalSeconds).toBe(300);
+    expect(result.maxWaitMinutes).toBe(90);
+  });
+
+  it('should throw error when poll-max-interval-seconds is below poll-interval-seconds', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'poll-interval-seconds': '120',
+        'poll-max-interval-seconds': '60',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('poll-max-interval-seconds must be a number between poll-interval-seconds and 600');
+  });
+
+  it('should default mode to full', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.mode).toBe('full');
+    expect(result.pendingLabel).toBe('qa-pending');
+  });
+
+  it('should throw error for unknown mode', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        mode: 'later',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('mode must be one of: full, dispatch, collect, pre-merge, regression');
+  });
+
+  it('should default check run settings', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.checkRun).toBe(false);
+    expect(result.checkName).toBe('Runhuman QA');
+  });
+
+  it('should parse check run settings', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'check-run': 'true',
+        'check-name': 'QA / issues',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.checkRun).toBe(true);
+    expect(result.checkName).toBe('QA / issues');
+  });
+
+  it('should default the inconclusive policy to label', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.inconclusivePolicy).toBe('label');
+    expect(result.inconclusiveLabel).toBe('qa-inconclusive');
+  });
+
+  it('should reject an invalid inconclusive policy', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'inconclusive-policy': 'fail',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('inconclusive-policy must be one of: ignore, label, retry');
+  });
+
+  it('should validate max-attempts', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'max-attempts': '6',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('max-attempts must be a number between 1 and 5');
+  });
+
+  it('should parse consensus settings', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'testers-per-issue': '3',
+        consensus: 'any-fail',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.testersPerIssue).toBe(3);
+    expect(result.consensus).toBe('any-fail');
+  });
+
+  it('should reject several testers per issue in dispatch mode', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'testers-per-issue': '2',
+        mode: 'dispatch',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('testers-per-issue above 1 cannot be used with mode: dispatch');
+  });
+
+  it('should default dry-run to off', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.dryRun).toBe(false);
+    expect(result.dryRunComment).toBe(false);
+  });
+
+  it('should reject dry-run in collect mode', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'dry-run': 'true',
+        mode: 'collect',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('dry-run cannot be used with mode: collect');
+  });
+
+  it('should parse confidence review settings', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'min-confidence': '0.7',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.minConfidence).toBe(0.7);
+    expect(result.needsReviewLabel).toBe('qa-needs-review');
+    expect(result.approvalLabel).toBe('qa-approved');
+  });
+
+  it('should parse reaction approval settings', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'require-approval': 'true',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.requireApproval).toBe(true);
+    expect(result.awaitingApprovalLabel).toBe('qa-awaiting-approval');
+  });
+
+  it('should reject a min-confidence above 1', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'min-confidence': '70',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('min-confidence must be a number between 0 and 1');
+  });
+
+  it('should parse pre-merge mode', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        mode: 'pre-merge',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(parseInputs().mode).toBe('pre-merge');
+  });
+
+  it('should parse regression settings', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        mode: 'regression',
+        'regression-scope': 'label',
+        'regression-max-issues': '10',
+      };
+      return inputs[name] || '';
+    });
+
+    const result = parseInputs();
+
+    expect(result.mode).toBe('regression');
+    expect(result.regressionLabel).toBe('qa-regression');
+    expect(result.regressionScope).toBe('label');
+    expect(result.regressionMaxIssues).toBe(10);
+  });
+
+  it('should reject an invalid regression scope', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        mode: 'regression',
+        'regression-scope': 'failed',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('regression-scope must be one of: label, passed, all');
+  });
+
+  it('should reject issue-number in pre-merge mode', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'issue-number': '12',
+        mode: 'pre-merge',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('issue-number cannot be used with mode: pre-merge');
+  });
+
+  it('should reject issue-query in regression mode', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'issue-query': 'label:qa-test',
+        mode: 'regression',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('issue-query cannot be used with mode: regression');
+  });
+
+  it('should throw error for invalid api-max-attempts', () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        'api-max-attempts': '0',
+      };
+      return inputs[name] || '';
+    });
+
+    expect(() => parseInputs()).toThrow('api-max-attempts must be a number between 1 and 10');
+  });
+});
+
+describe('parseInputs with a repository config file', () => {
+  let workspace: string;
+  const originalWorkspace = process.env.GITHUB_WORKSPACE;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'runhuman-inputs-'));
+    process.env.GITHUB_WORKSPACE = workspace;
+    fs.mkdirSync(path.join(workspace, '.github'));
+    fs.writeFileSync(
+      path.join(workspace, '.github/runhuman.yml'),
+      [
+        'qa-label: verify',
+        'target-duration-minutes: 10',
+        'failure-label: ""',
+        'rules:',
+        '  - labels: [admin]',
+        '    target-duration-minutes: 20',
+      ].join('\n')
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+    process.env.GITHUB_WORKSPACE = originalWorkspace;
+  });
+
+  function mockInputs(values: Record<string, string>) {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'api-key': 'qa_live_test123',
+        'github-token': 'ghp_test',
+        // Defaults the runner fills in from action.yml
+        'qa-label': 'qa-test',
+        'target-duration-minutes': '5',
+        'failure-label': 'qa-failed',
+        'reopen-on-failure': 'true',
+        ...values,
+      };
+      return inputs[name] ?? '';
+    });
+  }
+
+  it('uses config values over input defaults and reports sources', () => {
+    mockInputs({});
+
+    const result = parseInputs();
+
+    expect(result.qaLabel).toBe('verify');
+    expect(result.targetDurationMinutes).toBe(10);
+    expect(result.failureLabel).toBe('');
+    expect(result.reopenOnFailure).toBe(true);
+    expect(result.rules).toHaveLength(1);
+    expect(result.settingSources).toEqual({
+      'test-url': 'default',
+      'target-duration-minutes': 'config',
+      'qa-label': 'config',
+      'failure-label': 'config',
+      'reopen-on-failure': 'default',
+    });
+    expect(core.info).toHaveBeenCalledWith('Setting qa-label: verify (from config)');
+  });
+
+  it('lets inputs that differ from their defaults win over the config file', () => {
+    mockInputs({ 'qa-label': 'manual-qa', 'target-duration-minutes': '3' });
+
+    const result = parseInputs();
+
+    expect(result.qaLabel).toBe('manual-qa');
+    expect(result.targetDurationMinutes).toBe(3);
+    expect(result.settingSources['qa-label']).toBe('input');
+    expect(result.settingSources['target-duration-minutes']).toBe('input');
+  });
+
+  it('fails on an invalid config file', () => {
+    fs.writeFileSync(path.join(workspace, '.github/runhuman.yml'), 'target-duration-minutes: 99\n');
+    mockInputs({});
+
+    expect(() => parseInputs()).toThrow('target-duration-minutes must be a whole number between 1 and 60');
+  });
+
+  it('requires a custom config-file to exist', () => {
+    mockInputs({ 'config-file': 'qa/runhuman.yml' });
+
+    expect(() => parseInputs()).toThrow('config-file not found: qa/runhuman.yml');
+  });
 });
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockOctokit } = vi.hoisted(() => ({
+  mockOctokit: {
+    paginate: vi.fn(),
+    rest: {
+      issues: { listComments: vi.fn(), createComment: vi.fn(), updateComment: vi.fn() },
+      users: { getAuthenticated: vi.fn() },
+    },
+  },
+}));
+
+vi.mock('@actions/github', () => ({
+  context: { repo: { owner: 'test-owner', repo: 'test-repo' } },
+  getOctokit: vi.fn(() => mockOctokit),
+}));
+
+import { postTestResultComment } from '../src/github/issue-commenter';
+import { buildTestResultComment } from '../src/templates/comment-template';
+import type { AnalyzeIssueResponse, QATestResponse } from '../src/types';
+
+describe('postTestResultComment', () => {
+  const analysis: AnalyzeIssueResponse = {
+    isTestable: true,
+    testUrl: 'https://staging.example.com',
+    testInstructions: 'Check the login form',
+    outputSchema: {},
+    confidence: 0.9,
+  };
+  const passed: QATestResponse = { status: 'completed', result: { success: true, explanation: 'Works', data: {} } };
+  const failed: QATestResponse = { status: 'completed', result: { success: false, explanation: 'Broken', data: {} } };
+  const issue = { owner: 'test-owner', repo: 'test-repo', number: 7, title: 'Login', body: '', state: 'CLOSED' as const, labels: [] };
+  const options = { commitSha: 'abcdef1234567', sticky: true, template: null, issue, prContext: null };
+
+  const actionComment = {
+    id: 1,
+    body: buildTestResultComment(failed, analysis, { commitSha: '1111111', timestamp: '2026-10-01T00:00:00.000Z' }),
+    user: { login: 'github-actions[bot]', type: 'Bot' },
+  };
+  const quotedComment = {
+    id: 2,
+    body: `> ${buildTestResultComment(passed, analysis, { commitSha: '2222222', timestamp: '2026-10-02T00:00:00.000Z' })}`,
+    user: { login: 'someone', type: 'User' },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOctokit.rest.users.getAuthenticated.mockRejectedValue(new Error('Resource not accessible by integration'));
+    mockOctokit.paginate.mockResolvedValue([actionComment, quotedComment]);
+  });
+
+  it('edits the latest result comment posted by the action, not a quoted copy', async () => {
+    await postTestResultComment('token', passed, analysis, options);
+
+    expect(mockOctokit.rest.issues.updateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: 1 }));
+    expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it('posts a new comment when only someone else posted a result comment', async () => {
+    mockOctokit.paginate.mockResolvedValue([quotedComment]);
+
+    await postTestResultComment('token', passed, analysis, options);
+
+    expect(mockOctokit.rest.issues.updateComment).not.toHaveBeenCalled();
+    expect(mockOctokit.rest.issues.createComment).toHaveBeenCalled();
+  });
+
+  it('builds the history only from result comments posted by the action', async () => {
+    await postTestResultComment('token', passed, analysis, { ...options, sticky: false });
+
+    const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+    expect(body).toContain('<summary>Previous results (1)</summary>');
+    expect(body).toContain('`1111111`');
+    expect(body).not.toContain('`2222222`');
+  });
+});
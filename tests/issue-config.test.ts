@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { parseIssueConfig, applyIssueConfig } from '../src/issue-config';
+
+const analysis = {
+  isTestable: true,
+  testUrl: 'https://example.com',
+  testInstructions: 'Open the dashboard',
+  outputSchema: { loaded: { type: 'boolean', description: 'Did the dashboard load?' } },
+  confidence: 0.8,
+};
+
+describe('parseIssueConfig', () => {
+  it('returns the body unchanged without a block', () => {
+    const result = parseIssueConfig('The export button is broken');
+
+    expect(result).toEqual({ config: {}, body: 'The export button is broken', warnings: [] });
+  });
+
+  it('reads settings and strips the block from the body', () => {
+    const body = [
+      'The export button is broken.',
+      '',
+      '```runhuman',
+      'url: https://staging.example.com/admin',
+      'duration-minutes: 15',
+      'instructions: Log in with the shared admin account first',
+      'output-fields:',
+      '  export_works: Could you export the report as CSV?',
+      '  rows:',
+      '    type: number',
+      '    description: How many rows did the export have?',
+      '```',
+      '',
+      'Steps: click export.',
+    ].join('\n');
+
+    const result = parseIssueConfig(body);
+
+    expect(result.warnings).toEqual([]);
+    expect(result.config).toEqual({
+      testUrl: 'https://staging.example.com/admin',
+      targetDurationMinutes: 15,
+      instructions: 'Log in with the shared admin account first',
+      outputFields: {
+        export_works: { type: 'string', description: 'Could you export the report as CSV?' },
+        rows: { type: 'number', description: 'How many rows did the export have?' },
+      },
+    });
+    expect(result.body).toBe('The export button is broken.\n\n\nSteps: click export.');
+    expect(result.body).not.toContain('runhuman');
+  });
+
+  it('supports tilde fences', () => {
+    expect(parseIssueConfig('~~~runhuman\nduration-minutes: 2\n~~~').config).toEqual({ targetDurationMinutes: 2 });
+  });
+
+  it('treats a skip reason as skipping', () => {
+    expect(parseIssueConfig('```runhuman\nskip: Needs a hardware token\n```').config).toEqual({
+      skip: true,
+      skipReason: 'Needs a hardware token',
+    });
+    expect(parseIssueConfig('```runhuman\nskip: false\n```').config).toEqual({ skip: false });
+  });
+
+  it('warns about invalid YAML and ignores the block', () => {
+    const result = parseIssueConfig('Broken\n```runhuman\nurl: [unclosed\n```');
+
+    expect(result.config).toEqual({});
+    expect(result.body).toBe('Broken');
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toMatch(/^runhuman block is not valid YAML/);
+  });
+
+  it('warns about a block that is not a mapping', () => {
+    expect(parseIssueConfig('```runhuman\n- url\n```').warnings).toEqual(['runhuman block must be a YAML mapping of settings']);
+  });
+
+  it('drops invalid settings with a warning and keeps valid ones', () => {
+    const result = parseIssueConfig(
+      '```runhuman\nurl: not-a-url\nduration-minutes: 90\ninstructions: Use Safari\ncolour: blue\noutput-fields:\n  ok:\n    type: date\n```'
+    );
+
+    expect(result.config).toEqual({ instructions: 'Use Safari' });
+    expect(result.warnings).toEqual([
+      'unknown setting "colour" in runhuman block (expected one of: url, duration-minutes, instructions, output-fields, skip)',
+      'url in runhuman block must be a valid URL (http:// or https://)',
+      'duration-minutes in runhuman block must be a whole number between 1 and 60',
+      'output field "ok" in runhuman block needs a description and a type of string, number, boolean',
+    ]);
+  });
+
+  it('uses only the first of several blocks', () => {
+    const result = parseIssueConfig('```runhuman\nduration-minutes: 3\n```\n```runhuman\nduration-minutes: 4\n```');
+
+    expect(result.config).toEqual({ targetDurationMinutes: 3 });
+    expect(result.warnings).toEqual(['found 2 runhuman blocks, only the first is used']);
+    expect(result.body).toBe('');
+  });
+
+  it('leaves other code blocks alone', () => {
+    const body = '```yaml\nurl: https://example.com\n```';
+    expect(parseIssueConfig(body)).toEqual({ config: {}, body, warnings: [] });
+  });
+});
+
+describe('applyIssueConfig', () => {
+  it('appends instructions and merges output fields', () => {
+    const result = applyIssueConfig(analysis, {
+      instructions: 'Use the admin account',
+      outputFields: { exported: { type: 'boolean', description: 'Did the export work?' } },
+    });
+
+    expect(result.testInstructions).toBe('Open the dashboard\n\nAdditional instructions:\nUse the admin account');
+    expect(Object.keys(result.outputSchema)).toEqual(['loaded', 'exported']);
+    expect(analysis.testInstructions).toBe('Open the dashboard');
+  });
+
+  it('leaves the analysis as is without settings', () => {
+    expect(applyIssueConfig(analysis, {})).toEqual(analysis);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockOctokit } = vi.hoisted(() => ({
+  mockOctokit: { graphql: vi.fn() },
+}));
+
+vi.mock('@actions/github', () => ({
+  context: { repo: { owner: 'test-owner', repo: 'test-repo' } },
+  getOctokit: vi.fn(() => mockOctokit),
+}));
+
+import { findIssueFixer } from '../src/github/issue-fixer';
+
+const issue = { owner: 'test-owner', repo: 'test-repo', number: 9 };
+
+function closedBy(event: { actor: unknown; closer: unknown }) {
+  mockOctokit.graphql.mockResolvedValue({ repository: { issue: { timelineItems: { nodes: [event] } } } });
+}
+
+describe('findIssueFixer', () => {
+  beforeEach(() => {
+    mockOctokit.graphql.mockReset();
+  });
+
+  it('credits the author of the PR that closed the issue', async () => {
+    closedBy({
+      actor: { __typename: 'User', login: 'maintainer' },
+      closer: { __typename: 'PullRequest', number: 31, author: { __typename: 'User', login: 'dev' } },
+    });
+
+    expect(await findIssueFixer('token', issue)).toEqual({ login: 'dev', prNumber: 31 });
+  });
+
+  it('falls back to whoever closed the issue', async () => {
+    closedBy({ actor: { __typename: 'User', login: 'maintainer' }, closer: null });
+
+    expect(await findIssueFixer('token', issue)).toEqual({ login: 'maintainer' });
+  });
+
+  it('never names a bot as the fixer', async () => {
+    closedBy({ actor: { __typename: 'Bot', login: 'github-actions' }, closer: null });
+    expect(await findIssueFixer('token', issue)).toBeNull();
+
+    closedBy({
+      actor: { __typename: 'User', login: 'maintainer' },
+      closer: { __typename: 'PullRequest', number: 32, author: { __typename: 'Bot', login: 'dependabot' } },
+    });
+    expect(await findIssueFixer('token', issue)).toEqual({ login: 'maintainer' });
+  });
+
+  it('returns null for issues that were never closed', async () => {
+    mockOctokit.graphql.mockResolvedValue({ repository: { issue: { timelineItems: { nodes: [] } } } });
+
+    expect(await findIssueFixer('token', issue)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { mockOctokit } = vi.hoisted(() => ({
+  mockOctokit: {
+    paginate: vi.fn(),
+    rest: {
+      issues: { listComments: vi.fn() },
+      users: { getAuthenticated: vi.fn() },
+    },
+  },
+}));
+
+vi.mock('@actions/github', () => ({
+  context: { repo: { owner: 'test-owner', repo: 'test-repo' } },
+  getOctokit: vi.fn(() => mockOctokit),
+}));
+
+import { buildJobRecordComment, parseJobRecord, findJobRecords } from '../src/github/job-records';
+
+describe('job records', () => {
+  const record = {
+    jobId: 'job_abc123',
+    commitSha: '0123456789abcdef0123456789abcdef01234567',
+    createdAt: '2026-10-01T12:00:00.000Z',
+  };
+
+  it('round-trips a record through the marker comment', () => {
+    const comment = buildJobRecordComment(record);
+
+    expect(parseJobRecord(comment)).toEqual(record);
+  });
+
+  it('shows the job and short commit SHA in the visible text', () => {
+    const comment = buildJobRecordComment(record);
+
+    expect(comment).toContain('QA test in progress');
+    expect(comment).toContain('`job_abc123`');
+    expect(comment).toContain('0123456');
+  });
+
+  it('round-trips the attempt history of a re-dispatched job', () => {
+    const redispatched = {
+      ...record,
+      targetDurationMinutes: 10,
+      attempts: [{ jobId: 'job_first', status: 'abandoned', costUsd: 0.05 }],
+    };
+
+    expect(parseJobRecord(buildJobRecordComment(redispatched))).toEqual(redispatched);
+  });
+
+  it('returns null for comments without a marker', () => {
+    expect(parseJobRecord('## QA Test PASSED')).toBeNull();
+  });
+
+  it('returns null for malformed markers', () => {
+    expect(parseJobRecord('<!-- runhuman-job {not json} -->')).toBeNull();
+    expect(parseJobRecord('<!-- runhuman-job {"jobId":42} -->')).toBeNull();
+  });
+
+  it('keeps free text from closing the hidden marker early', () => {
+    const comment = buildJobRecordComment({
+      ...record,
+      analysis: {
+        isTestable: true,
+        testUrl: 'https://staging.example.com',
+        testInstructions: 'Check the <!-- banner --> renders',
+        outputSchema: {},
+        confidence: 0.9,
+      },
+      prNumber: 12,
+    });
+
+    expect(comment.split('-->')).toHaveLength(2);
+    expect(parseJobRecord(comment)?.analysis?.testInstructions).toBe('Check the <!-- banner --> renders');
+    expect(parseJobRecord(comment)?.prNumber).toBe(12);
+  });
+
+  it('ignores job markers in comments not posted by the action', async () => {
+    mockOctokit.rest.users.getAuthenticated.mockResolvedValue({ data: { login: 'qa-bot-user' } });
+    mockOctokit.paginate.mockResolvedValue([
+      { id: 1, body: buildJobRecordComment(record), user: { login: 'qa-bot-user', type: 'User' } },
+      { id: 2, body: buildJobRecordComment({ ...record, jobId: 'job_forged' }), user: { login: 'outsider', type: 'User' } },
+    ]);
+
+    const records = await findJobRecords('pat-token', { owner: 'test-owner', repo: 'test-repo', number: 7 }, record.commitSha);
+
+    expect(records.map((r) => r.jobId)).toEqual(['job_abc123']);
+  });
+});
@@ -1,5 +1,27 @@
-import { describe, it, expect } from 'vitest';
-import { parseIssueNumbersFromCommitMessage } from '../src/github/linked-issues';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockOctokit } = vi.hoisted(() => ({
+  mockOctokit: {
+    graphql: vi.fn(),
+    paginate: vi.fn(),
+    rest: { search: { issuesAndPullRequests: vi.fn() } },
+  },
+}));
+
+vi.mock('@actions/github', () => ({
+  context: {
+    repo: { owner: 'test-owner', repo: 'test-repo' },
+    payload: {},
+  },
+  getOctokit: vi.fn(() => mockOctokit),
+}));
+
+import {
+  parseIssueNumbersFromCommitMessage,
+  parseIssueReferencesFromCommitMessage,
+  getLinkedIssues,
+  searchIssues,
+} from '../src/github/linked-issues';
 
 describe('parseIssueNumbersFromCommitMessage', () => {
   describe('default patterns (GitHub keywords)', () => {
@@ -131,3 +153,229 @@ describe('parseIssueNumbersFromCommitMessage', () => {
     });
   });
 });
+
+describe('getLinkedIssues', () => {
+  beforeEach(() => {
+    mockOctokit.graphql.mockReset();
+  });
+
+  function issueNode(number: number, labels: string[], moreLabels = false, owner = 'test-owner', repo = 'test-repo') {
+    return {
+      number,
+      title: `Issue ${number}`,
+      body: '',
+      state: 'CLOSED',
+      repository: { name: repo, owner: { login: owner } },
+      labels: {
+        pageInfo: { hasNextPage: moreLabels, endCursor: moreLabels ? `labels-${number}` : null },
+        nodes: labels.map((name) => ({ name })),
+      },
+    };
+  }
+
+  function linkedIssuesPage(nodes: unknown[], endCursor: string | null) {
+    return {
+      repository: {
+        pullRequest: {
+          closingIssuesReferences: {
+            pageInfo: { hasNextPage: endCursor !== null, endCursor },
+            nodes,
+          },
+        },
+      },
+    };
+  }
+
+  it('follows cursors across pages of linked issues', async () => {
+    mockOctokit.graphql
+      .mockResolvedValueOnce(linkedIssuesPage([issueNode(1, []), issueNode(2, [])], 'page-2'))
+      .mockResolvedValueOnce(linkedIssuesPage([issueNode(3, [])], 'page-3'))
+      .mockResolvedValueOnce(linkedIssuesPage([issueNode(4, [])], null));
+
+    const issues = await getLinkedIssues('token', 10);
+
+    expect(issues.map((issue) => issue.number)).toEqual([1, 2, 3, 4]);
+    expect(mockOctokit.graphql).toHaveBeenCalledTimes(3);
+    expect(mockOctokit.graphql.mock.calls[0][1]).toMatchObject({ prNumber: 10, cursor: null });
+    expect(mockOctokit.graphql.mock.calls[1][1]).toMatchObject({ cursor: 'page-2' });
+    expect(mockOctokit.graphql.mock.calls[2][1]).toMatchObject({ cursor: 'page-3' });
+  });
+
+  it('fetches labels beyond the first page', async () => {
+    const labelsPage = (names: string[], endCursor: string | null) => ({
+      repository: {
+        issue: {
+          labels: {
+            pageInfo: { hasNextPage: endCursor !== null, endCursor },
+            nodes: names.map((name) => ({ name })),
+          },
+        },
+      },
+    });
+
+    mockOctokit.graphql
+      .mockResolvedValueOnce(linkedIssuesPage([issueNode(5, ['bug', 'ui'], true)], null))
+      .mockResolvedValueOnce(labelsPage(['frontend'], 'labels-page-3'))
+      .mockResolvedValueOnce(labelsPage(['qa-test'], null));
+
+    const issues = await getLinkedIssues('token', 10);
+
+    expect(issues[0].labels.map((label) => label.name)).toEqual(['bug', 'ui', 'frontend', 'qa-test']);
+    expect(mockOctokit.graphql.mock.calls[1][1]).toMatchObject({ issueNumber: 5, cursor: 'labels-5' });
+    expect(mockOctokit.graphql.mock.calls[2][1]).toMatchObject({ issueNumber: 5, cursor: 'labels-page-3' });
+  });
+});
+
+describe('getLinkedIssues across repositories', () => {
+  beforeEach(() => {
+    mockOctokit.graphql.mockReset();
+  });
+
+  it('keeps the repository of each closing reference', async () => {
+    mockOctokit.graphql.mockResolvedValueOnce({
+      repository: {
+        pullRequest: {
+          closingIssuesReferences: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [
+              {
+                number: 8,
+                title: 'Local bug',
+                body: '',
+                state: 'CLOSED',
+                repository: { name: 'test-repo', owner: { login: 'test-owner' } },
+                labels: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] },
+              },
+              {
+                number: 8,
+                title: 'Tracked elsewhere',
+                body: '',
+                state: 'OPEN',
+                repository: { name: 'issues', owner: { login: 'org' } },
+                labels: { pageInfo: { hasNextPage: true, endCursor: 'more' }, nodes: [{ name: 'bug' }] },
+              },
+            ],
+          },
+        },
+      },
+    });
+    mockOctokit.graphql.mockResolvedValueOnce({
+      repository: {
+        issue: { labels: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [{ name: 'qa-test' }] } },
+      },
+    });
+
+    const issues = await getLinkedIssues('token', 10);
+
+    expect(issues.map(({ owner, repo, number }) => ({ owner, repo, number }))).toEqual([
+      { owner: 'test-owner', repo: 'test-repo', number: 8 },
+      { owner: 'org', repo: 'issues', number: 8 },
+    ]);
+    expect(issues[1].labels).toEqual([{ name: 'bug' }, { name: 'qa-test' }]);
+    expect(mockOctokit.graphql.mock.calls[1][1]).toMatchObject({ owner: 'org', repo: 'issues', issueNumber: 8 });
+  });
+});
+
+describe('parseIssueReferencesFromCommitMessage', () => {
+  it('resolves plain references to the workflow repository', () => {
+    expect(parseIssueReferencesFromCommitMessage('fixes #12')).toEqual([
+      { owner: 'test-owner', repo: 'test-repo', number: 12 },
+    ]);
+  });
+
+  it('matches owner/repo#123 references', () => {
+    expect(parseIssueReferencesFromCommitMessage('Fixes org/issues#45')).toEqual([
+      { owner: 'org', repo: 'issues', number: 45 },
+    ]);
+  });
+
+  it('matches full issue URLs', () => {
+    expect(parseIssueReferencesFromCommitMessage('Closes https://github.com/org/issues/issues/46')).toEqual([
+      { owner: 'org', repo: 'issues', number: 46 },
+    ]);
+  });
+
+  it('keeps the same number in different repositories apart', () => {
+    const result = parseIssueReferencesFromCommitMessage('fixes #7, fixes org/issues#7, fixes Org/Issues#7');
+    expect(result).toEqual([
+      { owner: 'test-owner', repo: 'test-repo', number: 7 },
+      { owner: 'org', repo: 'issues', number: 7 },
+    ]);
+  });
+
+  it('ignores URLs that are not issues', () => {
+    expect(parseIssueReferencesFromCommitMessage('fixes https://github.com/org/issues/pull/3')).toEqual([]);
+  });
+
+  it('leaves references to other repositories out of the number list', () => {
+    expect(parseIssueNumbersFromCommitMessage('fixes #1, fixes org/issues#2')).toEqual([1]);
+  });
+});
+
+describe('searchIssues', () => {
+  const searchResult = (number: number, isPullRequest = false) => ({
+    number,
+    title: `Result ${number}`,
+    body: null,
+    state: 'closed',
+    labels: [{ name: 'bug' }],
+    repository_url: 'https://api.github.com/repos/test-owner/test-repo',
+    ...(isPullRequest ? { pull_request: { url: 'https://api.github.com/pulls/1' } } : {}),
+  });
+
+  // Feed pages through the map function the way octokit.paginate does, stopping when done() is called
+  function mockPages(pages: Array<ReturnType<typeof searchResult>[]>) {
+    const fetched = { pages: 0 };
+    mockOctokit.paginate.mockImplementation(
+      async (_route: unknown, _params: unknown, mapFn: (response: { data: unknown[] }, done: () => void) => unknown[]) => {
+        const results: unknown[] = [];
+        let stopped = false;
+        for (const data of pages) {
+          fetched.pages++;
+          results.push(...mapFn({ data }, () => (stopped = true)));
+          if (stopped) break;
+        }
+        return results;
+      }
+    );
+    return fetched;
+  }
+
+  beforeEach(() => {
+    mockOctokit.paginate.mockReset();
+  });
+
+  it('scopes the query to issues in the current repository and leaves out pull requests', async () => {
+    mockPages([[searchResult(1), searchResult(2, true), searchResult(3)]]);
+
+    const issues = await searchIssues('token', 'is:closed label:bug');
+
+    expect(mockOctokit.paginate.mock.calls[0][1]).toEqual({
+      q: 'repo:test-owner/test-repo is:issue is:closed label:bug',
+      per_page: 100,
+    });
+    expect(issues.map((issue) => issue.number)).toEqual([1, 3]);
+    expect(issues[0]).toMatchObject({ owner: 'test-owner', repo: 'test-repo', state: 'CLOSED', labels: [{ name: 'bug' }] });
+  });
+
+  it('stops fetching pages once the limit is reached', async () => {
+    const page = (start: number) => Array.from({ length: 3 }, (_, i) => searchResult(start + i));
+    const fetched = mockPages([page(1), page(4), page(7)]);
+
+    const issues = await searchIssues('token', 'is:open', 5);
+
+    expect(issues.map((issue) => issue.number)).toEqual([1, 2, 3, 4, 5]);
+    expect(fetched.pages).toBe(2);
+  });
+
+  it('takes the repository of each issue from the result', async () => {
+    mockPages([[{ ...searchResult(4), repository_url: 'https://api.github.com/repos/org/issues' }, searchResult(5)]]);
+
+    const issues = await searchIssues('token', 'repo:org/issues label:qa-test');
+
+    expect(issues.map((issue) => [issue.owner, issue.repo, issue.number])).toEqual([
+      ['org', 'issues', 4],
+      ['test-owner', 'test-repo', 5],
+    ]);
+  });
+});
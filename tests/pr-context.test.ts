@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockOctokit } = vi.hoisted(() => ({
+  mockOctokit: {
+    paginate: vi.fn(),
+    rest: {
+      pulls: { get: vi.fn(), listReviewComments: vi.fn() },
+      issues: { listComments: vi.fn() },
+    },
+  },
+}));
+
+vi.mock('@actions/github', () => ({
+  context: {
+    repo: { owner: 'test-owner', repo: 'test-repo' },
+  },
+  getOctokit: vi.fn(() => mockOctokit),
+}));
+
+import { getPRContext } from '../src/github/pr-context';
+
+type ListMethod = (params: Record<string, unknown>) => Promise<{ data: unknown[] }>;
+
+/**
+ * Simulate Octokit's paginate: request pages until one comes back short
+ */
+async function fakePaginate(method: ListMethod, params: Record<string, unknown>): Promise<unknown[]> {
+  const perPage = params.per_page as number;
+  const items: unknown[] = [];
+  for (let page = 1; ; page++) {
+    const { data } = await method({ ...params, page });
+    items.push(...data);
+    if (data.length < perPage) return items;
+  }
+}
+
+function comments(count: number, offset: number, author = 'dev') {
+  return Array.from({ length: count }, (_, i) => ({
+    body: `Comment ${offset + i}`,
+    user: { login: author },
+    created_at: new Date(Date.UTC(2026, 0, 1, 0, offset + i)).toISOString(),
+  }));
+}
+
+describe('getPRContext', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOctokit.paginate.mockImplementation(fakePaginate);
+    mockOctokit.rest.pulls.get.mockResolvedValue({
+      data: { number: 7, title: 'Fix login', body: 'Fixes the login button', user: { login: 'author' } },
+    });
+  });
+
+  it('collects comments from every page', async () => {
+    mockOctokit.rest.issues.listComments.mockImplementation(async ({ page }: { page: number }) => ({
+      data: page === 1 ? comments(100, 0) : page === 2 ? comments(100, 100) : comments(20, 200),
+    }));
+    mockOctokit.rest.pulls.listReviewComments.mockImplementation(async ({ page }: { page: number }) => ({
+      data: page === 1 ? comments(100, 300) : comments(5, 400),
+    }));
+
+    const context = await getPRContext('token', 7);
+
+    expect(context.comments).toHaveLength(325);
+    expect(mockOctokit.rest.issues.listComments).toHaveBeenCalledTimes(3);
+    expect(mockOctokit.rest.pulls.listReviewComments).toHaveBeenCalledTimes(2);
+    expect(context.comments[0].body).toBe('Comment 0');
+    expect(context.comments[324].isReviewComment).toBe(true);
+  });
+
+  it('filters bot comments on every page', async () => {
+    mockOctokit.rest.issues.listComments.mockImplementation(async ({ page }: { page: number }) => ({
+      data: page === 1 ? comments(100, 0, 'github-actions[bot]') : comments(3, 100),
+    }));
+    mockOctokit.rest.pulls.listReviewComments.mockResolvedValue({ data: [] });
+
+    const context = await getPRContext('token', 7);
+
+    expect(context.comments).toHaveLength(3);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildPRReportComment } from '../src/templates/pr-report';
+import { buildActionResults } from '../src/results';
+import { parseMarker } from '../src/markers';
+import type { IssueTestResult } from '../src/types';
+
+const analysis = {
+  isTestable: true,
+  testUrl: 'https://pr-7.preview.app/login',
+  testInstructions: 'Log in',
+  outputSchema: {},
+  confidence: 0.9,
+};
+
+describe('buildPRReportComment', () => {
+  const issueResults: IssueTestResult[] = [
+    {
+      issueNumber: 2,
+      status: 'tested',
+      passed: false,
+      analysis,
+      testResult: {
+        status: 'completed',
+        costUsd: 0.5,
+        result: { success: false, explanation: 'Button | does\nnothing', data: {} },
+      },
+    },
+    {
+      issueNumber: 1,
+      status: 'tested',
+      passed: true,
+      analysis,
+      testResult: { status: 'completed', costUsd: 0.25, result: { success: true, explanation: 'Works', data: {} } },
+    },
+    { issueNumber: 3, repository: 'org/issues', status: 'skipped', passed: false, skipReason: 'Not testable' },
+  ];
+
+  it('summarizes every issue in one table', () => {
+    const comment = buildPRReportComment(buildActionResults(issueResults), 'abcdef1234567');
+
+    expect(comment).toContain('## ❌ QA Verification: 1 passed, 1 failed');
+    expect(comment).toContain('against commit abcdef1');
+    expect(comment).toContain('| #1 | ✅ Passed | Works |');
+    expect(comment).toContain('| #2 | ❌ Failed | Button \\| does nothing |');
+    expect(comment).toContain('| org/issues#3 | ⏭️ Skipped | Not testable |');
+    expect(comment).toContain('**Total cost:** $0.7500');
+  });
+
+  it('includes findings for tested issues only', () => {
+    const comment = buildPRReportComment(buildActionResults(issueResults), 'abcdef1234567');
+
+    expect(comment).toContain('<summary>✅ #1</summary>');
+    expect(comment).toContain('<summary>❌ #2</summary>');
+    expect(comment).not.toContain('<summary>⏭️');
+    expect(comment).toContain('**Tested URL:** https://pr-7.preview.app/login');
+  });
+
+  it('carries a marker identifying the report', () => {
+    const comment = buildPRReportComment(buildActionResults(issueResults), 'abcdef1234567');
+
+    expect(parseMarker(comment, 'pr-report')).toEqual({ commitSha: 'abcdef1234567' });
+  });
+
+  it('truncates long details', () => {
+    const comment = buildPRReportComment(
+      buildActionResults([{ issueNumber: 4, status: 'error', passed: false, error: 'x'.repeat(500) }]),
+      'abcdef1234567'
+    );
+
+    expect(comment).toContain(`| #4 | ⚠️ Error | ${'x'.repeat(199)}… |`);
+    expect(comment).toContain('## ⚠️ QA Verification: 0 passed, 0 failed');
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockOctokit } = vi.hoisted(() => ({
+  mockOctokit: {
+    paginate: vi.fn(),
+    rest: {
+      issues: {
+        listComments: vi.fn(),
+        createComment: vi.fn(),
+        updateComment: vi.fn(),
+        addLabels: vi.fn(),
+        removeLabel: vi.fn(),
+        get: vi.fn(),
+      },
+      reactions: { listForIssueComment: vi.fn() },
+      repos: { getCollaboratorPermissionLevel: vi.fn() },
+      users: { getAuthenticated: vi.fn() },
+    },
+  },
+}));
+
+vi.mock('@actions/github', () => ({
+  context: { repo: { owner: 'test-owner', repo: 'test-repo' } },
+  getOctokit: vi.fn(() => mockOctokit),
+}));
+
+vi.mock('../src/api/analyze-issue', () => ({ analyzeIssue: vi.fn() }));
+
+vi.mock('../src/api/run-test', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/api/run-test')>()),
+  startQATest: vi.fn(),
+}));
+
+import { processIssue, shouldRedispatch, type RunContext } from '../src/process-issue';
+import { analyzeIssue } from '../src/api/analyze-issue';
+import { startQATest } from '../src/api/run-test';
+import { buildApprovalRequestComment } from '../src/github/approvals';
+import { parseJobRecord } from '../src/github/job-records';
+import { createLock } from '../src/concurrency';
+import { createCostBudget } from '../src/budget';
+import type { AnalyzeIssueResponse, LinkedIssue, ParsedInputs, QATestResponse } from '../src/types';
+
+function inputs(overrides: Partial<ParsedInputs>): ParsedInputs {
+  return { maxAttempts: 1, inconclusivePolicy: 'label', ...overrides } as ParsedInputs;
+}
+
+describe('shouldRedispatch', () => {
+  const abandoned: QATestResponse = { status: 'abandoned' };
+  const errored: QATestResponse = { status: 'error', error: 'Browser crashed' };
+  const completed: QATestResponse = {
+    status: 'completed',
+    result: { success: false, explanation: 'Still broken', data: {} },
+  };
+
+  it('re-dispatches abandoned and incomplete jobs up to max-attempts', () => {
+    expect(shouldRedispatch(abandoned, 1, inputs({ maxAttempts: 3 }))).toBe(true);
+    expect(shouldRedispatch({ status: 'incomplete' }, 2, inputs({ maxAttempts: 3 }))).toBe(true);
+    expect(shouldRedispatch(abandoned, 3, inputs({ maxAttempts: 3 }))).toBe(false);
+  });
+
+  it('never re-dispatches by default', () => {
+    expect(shouldRedispatch(abandoned, 1, inputs({}))).toBe(false);
+  });
+
+  it('does not re-dispatch jobs with a verdict or errored jobs', () => {
+    expect(shouldRedispatch(completed, 1, inputs({ maxAttempts: 3 }))).toBe(false);
+    expect(shouldRedispatch(errored, 1, inputs({ maxAttempts: 3 }))).toBe(false);
+  });
+
+  it('allows one more job of any inconclusive kind with the retry policy', () => {
+    const retry = inputs({ maxAttempts: 2, inconclusivePolicy: 'retry' });
+
+    expect(shouldRedispatch(errored, 1, retry)).toBe(true);
+    expect(shouldRedispatch(abandoned, 2, retry)).toBe(true);
+    expect(shouldRedispatch(abandoned, 3, retry)).toBe(false);
+    expect(shouldRedispatch(completed, 1, retry)).toBe(false);
+  });
+});
+
+describe('processIssue', () => {
+  const commitSha = '0123456789abcdef0123456789abcdef01234567';
+
+  const baseInputs = {
+    githubToken: 'token',
+    apiKey: 'qa_live_test',
+    apiUrl: 'https://runhuman.com',
+    apiMaxAttempts: 1,
+    githubRepo: 'test-owner/test-repo',
+    mode: 'dispatch',
+    qaLabel: 'qa-test',
+    pendingLabel: 'qa-pending',
+    needsReviewLabel: 'qa-needs-review',
+    approvalLabel: 'qa-approved',
+    awaitingApprovalLabel: 'qa-awaiting-approval',
+    failureLabel: 'qa-failed',
+    testUrl: null,
+    targetDurationMinutes: 5,
+    reopenOnFailure: true,
+    issueNumber: null,
+    issueNumbers: [],
+    issueQuery: null,
+    testersPerIssue: 1,
+    minConfidence: 0,
+    requireApproval: false,
+    dryRun: false,
+    maxCostUsd: null,
+    rules: [],
+  } as unknown as ParsedInputs;
+
+  const analysis: AnalyzeIssueResponse = {
+    isTestable: true,
+    testUrl: 'https://staging.example.com/cart',
+    testInstructions: 'Add an item to the cart and check the total',
+    outputSchema: {},
+    confidence: 0.9,
+  };
+
+  function issue(labels: string[] = [], body = 'The cart total ignores discounts'): LinkedIssue {
+    return {
+      owner: 'test-owner',
+      repo: 'test-repo',
+      number: 7,
+      title: 'Cart total is wrong',
+      body,
+      state: 'CLOSED',
+      labels: labels.map((name) => ({ name })),
+    };
+  }
+
+  function run(): RunContext {
+    return {
+      commitSha,
+      prContext: null,
+      deploymentUrl: null,
+      githubLock: createLock(),
+      budget: createCostBudget(null),
+    };
+  }
+
+  // Comments on the issue and +1 reactions on them, served through paginate
+  let comments: Array<{ id: number; body: string; user: { login: string; type: string } }>;
+  let reactions: Array<{ user: { login: string } }>;
+
+  function postedComments(): string[] {
+    return mockOctokit.rest.issues.createComment.mock.calls.map(([params]) => params.body);
+  }
+
+  function labelsChanged(method: typeof mockOctokit.rest.issues.addLabels): string[] {
+    return method.mock.calls.flatMap(([params]) => params.labels ?? [params.name]);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    comments = [];
+    reactions = [];
+    mockOctokit.paginate.mockImplementation(async (method: unknown) =>
+      method === mockOctokit.rest.reactions.listForIssueComment ? reactions : comments
+    );
+    mockOctokit.rest.users.getAuthenticated.mockRejectedValue(new Error('Resource not accessible by integration'));
+    mockOctokit.rest.repos.getCollaboratorPermissionLevel.mockImplementation(async ({ username }) => ({
+      data: { permission: username === 'maintainer' ? 'write' : 'read' },
+    }));
+    vi.mocked(analyzeIssue).mockResolvedValue({ ...analysis });
+    vi.mocked(startQATest).mockResolvedValue('job_1');
+  });
+
+  it('dispatches a job, records it and marks the issue pending', async () => {
+    const result = await processIssue(issue(['qa-test']), baseInputs, run());
+
+    expect(result).toMatchObject({ status: 'pending', jobId: 'job_1' });
+    expect(parseJobRecord(postedComments()[0])).toMatchObject({ jobId: 'job_1', commitSha });
+    expect(labelsChanged(mockOctokit.rest.issues.addLabels)).toEqual(['qa-pending']);
+  });
+
+  it('plans the test without creating a job in a dry run', async () => {
+    const result = await processIssue(issue(['qa-test']), { ...baseInputs, dryRun: true }, run());
+
+    expect(result).toMatchObject({ status: 'planned', plannedTest: { targetDurationMinutes: 5, testers: 1 } });
+    expect(startQATest).not.toHaveBeenCalled();
+    expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it('skips an issue over max-cost-usd before analyzing it', async () => {
+    const result = await processIssue(issue(['qa-test']), { ...baseInputs, maxCostUsd: 0.1 }, run());
+
+    expect(result).toMatchObject({ status: 'skipped', budgetExceeded: true });
+    expect(result.skipReason).toContain('exceeds max-cost-usd');
+    expect(analyzeIssue).not.toHaveBeenCalled();
+    expect(startQATest).not.toHaveBeenCalled();
+  });
+
+  describe('min-confidence', () => {
+    const inputs = { ...baseInputs, minConfidence: 0.7 };
+
+    beforeEach(() => {
+      vi.mocked(analyzeIssue).mockResolvedValue({ ...analysis, confidence: 0.5 });
+    });
+
+    it('skips a low-confidence auto-detected issue without asking for review', async () => {
+      const result = await processIssue(issue(), inputs, run());
+
+      expect(result.status).toBe('skipped');
+      expect(result.skipReason).toMatch(/^Low confidence: analysis is 50% confident/);
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+      expect(startQATest).not.toHaveBeenCalled();
+    });
+
+    it('asks for review of a low-confidence labeled issue', async () => {
+      const result = await processIssue(issue(['qa-test']), inputs, run());
+
+      expect(result.skipReason).toBe('Low confidence (50%): waiting for the "qa-approved" label');
+      expect(postedComments()[0]).toContain('QA Test Needs Review');
+      expect(labelsChanged(mockOctokit.rest.issues.addLabels)).toEqual(['qa-needs-review']);
+      expect(startQATest).not.toHaveBeenCalled();
+    });
+
+    it('tests an issue approved with the label, then removes the review labels', async () => {
+      const result = await processIssue(issue(['qa-test', 'qa-needs-review', 'qa-approved']), inputs, run());
+
+      expect(result).toMatchObject({ status: 'pending', jobId: 'job_1' });
+      expect(labelsChanged(mockOctokit.rest.issues.removeLabel)).toEqual(['qa-needs-review', 'qa-approved']);
+    });
+  });
+
+  describe('require-approval', () => {
+    const inputs = { ...baseInputs, requireApproval: true };
+    const request = {
+      commitSha,
+      createdAt: '2026-10-01T12:00:00.000Z',
+      analysis,
+      plannedTest: { targetDurationMinutes: 10, testers: 1, estimatedCostUsd: 1.08 },
+    };
+
+    function proposed() {
+      comments = [{ id: 40, body: buildApprovalRequestComment(request), user: { login: 'github-actions[bot]', type: 'Bot' } }];
+    }
+
+    it('proposes the test of an auto-detected issue instead of running it', async () => {
+      const result = await processIssue(issue(), inputs, run());
+
+      expect(result.skipReason).toMatch(/^Awaiting approval/);
+      expect(postedComments()[0]).toContain('QA Test Awaiting Approval');
+      expect(labelsChanged(mockOctokit.rest.issues.addLabels)).toEqual(['qa-awaiting-approval']);
+      expect(startQATest).not.toHaveBeenCalled();
+    });
+
+    it('keeps waiting while nobody with write access approved', async () => {
+      proposed();
+      reactions = [{ user: { login: 'outsider' } }];
+
+      const result = await processIssue(issue(['qa-awaiting-approval']), inputs, run());
+
+      expect(result.skipReason).toMatch(/^Awaiting approval/);
+      expect(analyzeIssue).not.toHaveBeenCalled();
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+      expect(startQATest).not.toHaveBeenCalled();
+    });
+
+    it('runs an approved test as proposed, ignoring later edits of the runhuman block', async () => {
+      proposed();
+      reactions = [{ user: { login: 'maintainer' } }];
+      const edited = 'Broken\n```runhuman\nurl: https://attacker.example.com\nduration-minutes: 60\n```';
+
+      const result = await processIssue(issue(['qa-awaiting-approval'], edited), inputs, run());
+
+      expect(result).toMatchObject({ status: 'pending', jobId: 'job_1' });
+      expect(analyzeIssue).not.toHaveBeenCalled();
+      const [, , testedAnalysis, targetDurationMinutes] = vi.mocked(startQATest).mock.calls[0];
+      expect(testedAnalysis.testUrl).toBe('https://staging.example.com/cart');
+      expect(targetDurationMinutes).toBe(10);
+      expect(labelsChanged(mockOctokit.rest.issues.removeLabel)).toEqual(['qa-awaiting-approval']);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@actions/core', () => ({ info: vi.fn(), debug: vi.fn() }));
+vi.mock('@actions/github', () => ({
+  context: { repo: { owner: 'test-owner', repo: 'test-repo' }, runNumber: 1 },
+}));
+vi.mock('../src/github/linked-issues', () => ({
+  getIssuesWithLabel: vi.fn(),
+  searchIssues: vi.fn(),
+}));
+vi.mock('../src/github/issue-commenter', () => ({
+  findLatestResult: vi.fn(),
+}));
+
+import { rotateBatch, selectRegressionIssues } from '../src/regression';
+import { getIssuesWithLabel, searchIssues } from '../src/github/linked-issues';
+import { findLatestResult } from '../src/github/issue-commenter';
+import type { LinkedIssue, ParsedInputs } from '../src/types';
+
+describe('rotateBatch', () => {
+  const issues = [1, 2, 3, 4, 5, 6, 7];
+
+  it('returns every item when they fit in one batch', () => {
+    expect(rotateBatch([1, 2], 5, 3)).toEqual([1, 2]);
+  });
+
+  it('moves the window on with each run', () => {
+    expect(rotateBatch(issues, 3, 1)).toEqual([1, 2, 3]);
+    expect(rotateBatch(issues, 3, 2)).toEqual([4, 5, 6]);
+  });
+
+  it('wraps around the end of the list', () => {
+    expect(rotateBatch(issues, 3, 3)).toEqual([7, 1, 2]);
+    expect(rotateBatch(issues, 3, 4)).toEqual([3, 4, 5]);
+  });
+
+  it('covers every item over consecutive runs', () => {
+    const covered = new Set([1, 2, 3].flatMap((run) => rotateBatch(issues, 3, run)));
+
+    expect([...covered].sort()).toEqual(issues);
+  });
+});
+
+describe('selectRegressionIssues', () => {
+  const issue = (number: number): LinkedIssue => ({
+    owner: 'test-owner',
+    repo: 'test-repo',
+    number,
+    title: `Issue ${number}`,
+    body: '',
+    state: 'CLOSED',
+    labels: [],
+  });
+  const inputs = {
+    githubToken: 'token',
+    regressionLabel: 'qa-regression',
+    regressionScope: 'all',
+    regressionMaxIssues: 5,
+    maxConcurrency: 2,
+  } as ParsedInputs;
+
+  it('adds tested issues whose latest result from the action passed', async () => {
+    vi.mocked(getIssuesWithLabel).mockResolvedValue([issue(9)]);
+    vi.mocked(searchIssues).mockResolvedValue([issue(3), issue(5), issue(7)]);
+    vi.mocked(findLatestResult).mockImplementation(async (_token, { number }) =>
+      number === 7 ? null : { verdict: number === 3 ? 'passed' : 'failed', timestamp: '', commitSha: '' }
+    );
+
+    const issues = await selectRegressionIssues(inputs);
+
+    expect(searchIssues).toHaveBeenCalledWith('token', 'is:closed in:comments "QA test in progress"');
+    expect(issues.map((i) => i.number)).toEqual([3, 9]);
+  });
+
+  it('only uses the label with regression-scope: label', async () => {
+    vi.mocked(searchIssues).mockClear();
+    vi.mocked(getIssuesWithLabel).mockResolvedValue([issue(9)]);
+
+    const issues = await selectRegressionIssues({ ...inputs, regressionScope: 'label' });
+
+    expect(searchIssues).not.toHaveBeenCalled();
+    expect(issues.map((i) => i.number)).toEqual([9]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadRepoConfig, resolveIssueSettings, validateRepoConfig } from '../src/repo-config';
+import type { ParsedInputs } from '../src/types';
+
+function validate(data: unknown) {
+  const errors: string[] = [];
+  const config = validateRepoConfig(data, errors);
+  return { config, errors };
+}
+
+describe('validateRepoConfig', () => {
+  it('accepts settings and rules', () => {
+    const { config, errors } = validate({
+      'test-url': 'https://staging.example.com',
+      'target-duration-minutes': 5,
+      'failure-label': '',
+      rules: [
+        { labels: ['area:admin'], 'test-url': 'https://admin.staging.example.com', 'target-duration-minutes': 15 },
+        { labels: 'docs', title: '^\\[Docs\\]', 'reopen-on-failure': false, 'qa-label': 'docs-qa' },
+      ],
+    });
+
+    expect(errors).toEqual([]);
+    expect(config).toEqual({
+      settings: { testUrl: 'https://staging.example.com', targetDurationMinutes: 5, failureLabel: '' },
+      rules: [
+        {
+          labels: ['area:admin'],
+          titlePattern: null,
+          settings: { testUrl: 'https://admin.staging.example.com', targetDurationMinutes: 15 },
+        },
+        { labels: ['docs'], titlePattern: '^\\[Docs\\]', settings: { reopenOnFailure: false, qaLabel: 'docs-qa' } },
+      ],
+    });
+  });
+
+  it('reports every problem with its location', () => {
+    const { errors } = validate({
+      'target-duration-minutes': 90,
+      colour: 'blue',
+      rules: [{ 'test-url': 'ftp://example.com' }, { title: '(unclosed', 'reopen-on-failure': 'no' }, 'admin'],
+    });
+
+    expect(errors).toEqual([
+      'target-duration-minutes must be a whole number between 1 and 60',
+      'colour is not a known setting (expected one of: test-url, target-duration-minutes, qa-label, failure-label, reopen-on-failure)',
+      'rules[0].test-url must be a valid URL (http:// or https://)',
+      'rules[0] needs labels or title to match issues',
+      'rules[1].reopen-on-failure must be true or false',
+      'rules[1].title must be a valid regular expression',
+      'rules[2] must be a mapping',
+    ]);
+  });
+
+  it('rejects a file that is not a mapping', () => {
+    expect(validate(['rules']).errors).toEqual(['the file must be a YAML mapping of settings']);
+    expect(validate({ rules: { labels: ['x'] } }).errors).toEqual(['rules must be a list']);
+  });
+});
+
+describe('loadRepoConfig', () => {
+  let workspace: string;
+  const originalWorkspace = process.env.GITHUB_WORKSPACE;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'runhuman-config-'));
+    process.env.GITHUB_WORKSPACE = workspace;
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+    process.env.GITHUB_WORKSPACE = originalWorkspace;
+  });
+
+  it('returns null for a missing optional file', () => {
+    expect(loadRepoConfig('.github/runhuman.yml', false)).toBeNull();
+  });
+
+  it('fails for a missing required file', () => {
+    expect(() => loadRepoConfig('qa/runhuman.yml', true)).toThrow('config-file not found: qa/runhuman.yml');
+  });
+
+  it('loads a YAML file', () => {
+    fs.mkdirSync(path.join(workspace, '.github'));
+    fs.writeFileSync(
+      path.join(workspace, '.github/runhuman.yml'),
+      'qa-label: verify\nrules:\n  - labels: [admin]\n    target-duration-minutes: 15\n'
+    );
+
+    expect(loadRepoConfig('.github/runhuman.yml', false)).toEqual({
+      settings: { qaLabel: 'verify' },
+      rules: [{ labels: ['admin'], titlePattern: null, settings: { targetDurationMinutes: 15 } }],
+    });
+  });
+
+  it('lists validation errors', () => {
+    fs.writeFileSync(path.join(workspace, 'runhuman.yml'), 'target-duration-minutes: 0\nqa-label: 3\n');
+
+    expect(() => loadRepoConfig('runhuman.yml', true)).toThrow(
+      'Invalid runhuman.yml:\n- target-duration-minutes must be a whole number between 1 and 60\n- qa-label must be a label name'
+    );
+  });
+
+  it('reports YAML syntax errors', () => {
+    fs.writeFileSync(path.join(workspace, 'runhuman.yml'), 'rules: [unclosed\n');
+
+    expect(() => loadRepoConfig('runhuman.yml', true)).toThrow(/^Invalid runhuman.yml: /);
+  });
+});
+
+describe('resolveIssueSettings', () => {
+  const inputs = {
+    testUrl: null,
+    targetDurationMinutes: 5,
+    qaLabel: 'qa-test',
+    failureLabel: 'qa-failed',
+    reopenOnFailure: true,
+    rules: [
+      { labels: ['Admin'], titlePattern: null, settings: { testUrl: 'https://admin.example.com', targetDurationMinutes: 15 } },
+      { labels: [], titlePattern: '^\\[docs\\]', settings: { reopenOnFailure: false, targetDurationMinutes: 2 } },
+      { labels: ['admin'], titlePattern: 'export', settings: { failureLabel: 'export-broken' } },
+    ],
+  } as unknown as ParsedInputs;
+
+  it('uses the global settings when no rule matches', () => {
+    expect(resolveIssueSettings({ title: 'Login broken', labels: [{ name: 'bug' }] }, inputs)).toEqual({
+      testUrl: null,
+      targetDurationMinutes: 5,
+      qaLabel: 'qa-test',
+      failureLabel: 'qa-failed',
+      reopenOnFailure: true,
+    });
+  });
+
+  it('matches labels case-insensitively', () => {
+    expect(resolveIssueSettings({ title: 'Users page', labels: [{ name: 'admin' }] }, inputs)).toMatchObject({
+      testUrl: 'https://admin.example.com',
+      targetDurationMinutes: 15,
+      failureLabel: 'qa-failed',
+    });
+  });
+
+  it('matches title patterns case-insensitively', () => {
+    expect(resolveIssueSettings({ title: '[Docs] Typo', labels: [] }, inputs)).toMatchObject({
+      reopenOnFailure: false,
+      targetDurationMinutes: 2,
+    });
+  });
+
+  it('applies every matching rule in order, later rules winning', () => {
+    expect(resolveIssueSettings({ title: '[Docs] Export guide', labels: [{ name: 'ADMIN' }] }, inputs)).toEqual({
+      testUrl: 'https://admin.example.com',
+      targetDurationMinutes: 2,
+      qaLabel: 'qa-test',
+      failureLabel: 'export-broken',
+      reopenOnFailure: false,
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@actions/core', () => ({ info: vi.fn(), warning: vi.fn(), debug: vi.fn() }));
+vi.mock('@actions/github', () => ({
+  context: { repo: { owner: 'test-owner', repo: 'test-repo' } },
+}));
+vi.mock('../src/github/linked-issues', () => ({
+  getIssueByNumber: vi.fn(),
+  searchIssues: vi.fn(),
+}));
+
+import * as core from '@actions/core';
+import { selectRequestedIssues, hasRequestedIssues, MAX_QUERY_ISSUES } from '../src/requested-issues';
+import { getIssueByNumber, searchIssues } from '../src/github/linked-issues';
+import type { LinkedIssue, ParsedInputs } from '../src/types';
+
+function issue(number: number, state: LinkedIssue['state'] = 'OPEN'): LinkedIssue {
+  return { owner: 'test-owner', repo: 'test-repo', number, title: `Issue ${number}`, body: '', state, labels: [] };
+}
+
+describe('selectRequestedIssues', () => {
+  const inputs = { githubToken: 'token', issueNumber: null, issueNumbers: [], issueQuery: null } as unknown as ParsedInputs;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getIssueByNumber).mockImplementation(async (_token, number) => issue(number));
+    vi.mocked(searchIssues).mockResolvedValue([]);
+  });
+
+  it('tests each issue once when issue-numbers and issue-query overlap', async () => {
+    vi.mocked(searchIssues).mockResolvedValue([issue(15), issue(30)]);
+
+    const issues = await selectRequestedIssues({
+      ...inputs,
+      issueNumber: 12,
+      issueNumbers: [12, 15],
+      issueQuery: 'label:qa-test is:closed',
+    });
+
+    expect(issues.map((i) => i.number)).toEqual([12, 15, 30]);
+    expect(getIssueByNumber).toHaveBeenCalledTimes(2);
+    expect(searchIssues).toHaveBeenCalledWith('token', 'label:qa-test is:closed', MAX_QUERY_ISSUES + 1);
+  });
+
+  it('skips missing issues with a warning and keeps closed ones', async () => {
+    vi.mocked(getIssueByNumber).mockImplementation(async (_token, number) => (number === 404 ? null : issue(number, 'CLOSED')));
+
+    const issues = await selectRequestedIssues({ ...inputs, issueNumbers: [404, 7] });
+
+    expect(issues).toEqual([issue(7, 'CLOSED')]);
+    expect(core.warning).toHaveBeenCalledWith('Issue #404 not found or is a pull request, skipping it');
+  });
+
+  it('tests at most MAX_QUERY_ISSUES matches of a query', async () => {
+    vi.mocked(searchIssues).mockResolvedValue(Array.from({ length: MAX_QUERY_ISSUES + 1 }, (_, i) => issue(i + 1)));
+
+    const issues = await selectRequestedIssues({ ...inputs, issueQuery: 'is:closed' });
+
+    expect(issues).toHaveLength(MAX_QUERY_ISSUES);
+    expect(issues[issues.length - 1].number).toBe(MAX_QUERY_ISSUES);
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining(`matched more than ${MAX_QUERY_ISSUES} issues`));
+  });
+});
+
+describe('hasRequestedIssues', () => {
+  it('is true for any of issue-number, issue-numbers and issue-query', () => {
+    const none = { issueNumber: null, issueNumbers: [], issueQuery: null } as unknown as ParsedInputs;
+
+    expect(hasRequestedIssues(none)).toBe(false);
+    expect(hasRequestedIssues({ ...none, issueNumber: 3 })).toBe(true);
+    expect(hasRequestedIssues({ ...none, issueNumbers: [3] })).toBe(true);
+    expect(hasRequestedIssues({ ...none, issueQuery: 'is:open' })).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { buildActionResults, formatResultIssue, isInconclusive, describeInconclusive, resultCostUsd } from '../src/results';
+import type { IssueTestResult } from '../src/types';
+
+describe('buildActionResults', () => {
+  it('orders results by issue number and fills the output lists', () => {
+    const issueResults: IssueTestResult[] = [
+      { issueNumber: 30, status: 'tested', passed: false, testResult: { status: 'completed', costUsd: 0.5 } },
+      { issueNumber: 10, status: 'tested', passed: true, testResult: { status: 'completed', costUsd: 0.25 } },
+      { issueNumber: 20, status: 'skipped', passed: false, skipReason: 'Not testable' },
+      { issueNumber: 5, status: 'error', passed: false, error: 'boom' },
+      { issueNumber: 40, status: 'skipped', passed: false, skipReason: 'Budget: limit reached', budgetExceeded: true },
+    ];
+
+    const results = buildActionResults(issueResults);
+
+    expect(results.results.map((r) => r.issueNumber)).toEqual([5, 10, 20, 30, 40]);
+    expect(results.testedIssues).toEqual([10, 30]);
+    expect(results.passedIssues).toEqual([10]);
+    expect(results.failedIssues).toEqual([30]);
+    expect(results.skippedIssues).toEqual([20, 40]);
+    expect(results.budgetSkippedIssues).toEqual([40]);
+    expect(results.totalCostUsd).toBeCloseTo(0.75);
+  });
+
+  it('does not mutate the input array', () => {
+    const issueResults: IssueTestResult[] = [
+      { issueNumber: 2, status: 'skipped', passed: false },
+      { issueNumber: 1, status: 'skipped', passed: false },
+    ];
+
+    buildActionResults(issueResults);
+
+    expect(issueResults.map((r) => r.issueNumber)).toEqual([2, 1]);
+  });
+
+  it('lists pending jobs', () => {
+    const results = buildActionResults([
+      { issueNumber: 3, status: 'pending', passed: false, jobId: 'job_3' },
+      { issueNumber: 1, status: 'pending', passed: false, jobId: 'job_1' },
+    ]);
+
+    expect(results.pendingJobs).toEqual([
+      { issueNumber: 1, jobId: 'job_1' },
+      { issueNumber: 3, jobId: 'job_3' },
+    ]);
+    expect(results.testedIssues).toEqual([]);
+  });
+});
+
+describe('planned results', () => {
+  it('lists issues a dry run would test without counting them as tested', () => {
+    const results = buildActionResults([
+      { issueNumber: 4, status: 'planned', passed: false },
+      { issueNumber: 2, status: 'skipped', passed: false, skipReason: 'Not testable' },
+    ]);
+
+    expect(results.plannedIssues).toEqual([4]);
+    expect(results.testedIssues).toEqual([]);
+    expect(results.totalCostUsd).toBe(0);
+  });
+});
+
+describe('inconclusive results', () => {
+  it('lists inconclusive issues separately from tested ones and counts their cost', () => {
+    const results = buildActionResults([
+      { issueNumber: 2, status: 'inconclusive', passed: false, testResult: { status: 'abandoned', costUsd: 0.1 } },
+      { issueNumber: 1, status: 'tested', passed: true, testResult: { status: 'completed', costUsd: 0.25 } },
+    ]);
+
+    expect(results.inconclusiveIssues).toEqual([2]);
+    expect(results.testedIssues).toEqual([1]);
+    expect(results.failedIssues).toEqual([]);
+    expect(results.totalCostUsd).toBeCloseTo(0.35);
+  });
+
+  it('treats jobs that ended without a result as inconclusive', () => {
+    const result = { success: false, explanation: 'Still broken', data: {} };
+
+    expect(isInconclusive({ status: 'completed', result })).toBe(false);
+    expect(isInconclusive({ status: 'completed' })).toBe(true);
+    expect(isInconclusive({ status: 'abandoned' })).toBe(true);
+    expect(isInconclusive({ status: 'incomplete' })).toBe(true);
+    expect(isInconclusive({ status: 'error', error: 'Browser crashed' })).toBe(true);
+  });
+
+  it('explains why there is no verdict', () => {
+    expect(describeInconclusive({ status: 'incomplete' })).toBe('The test was not completed');
+    expect(describeInconclusive({ status: 'error', error: 'Browser crashed' })).toBe(
+      'The job ended with an error: Browser crashed'
+    );
+  });
+});
+
+describe('resultCostUsd', () => {
+  it('sums the cost of every attempt', () => {
+    const results = buildActionResults([
+      {
+        issueNumber: 1,
+        status: 'tested',
+        passed: true,
+        testResult: { status: 'completed', costUsd: 0.3 },
+        attempts: [
+          { jobId: 'job_1', status: 'abandoned', costUsd: 0.05 },
+          { jobId: 'job_2', status: 'incomplete' },
+          { jobId: 'job_3', status: 'completed', costUsd: 0.3 },
+        ],
+      },
+      { issueNumber: 2, status: 'tested', passed: false, testResult: { status: 'completed', costUsd: 0.25 } },
+    ]);
+
+    expect(resultCostUsd(results.results[0])).toBeCloseTo(0.35);
+    expect(resultCostUsd(results.results[1])).toBeCloseTo(0.25);
+    expect(results.totalCostUsd).toBeCloseTo(0.6);
+  });
+});
+
+describe('formatResultIssue', () => {
+  it('prefixes issues in other repositories with their repository', () => {
+    expect(formatResultIssue({ issueNumber: 4 })).toBe('#4');
+    expect(formatResultIssue({ issueNumber: 4, repository: 'org/issues' })).toBe('org/issues#4');
+  });
+});
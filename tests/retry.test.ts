@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@actions/core', () => ({
+  debug: vi.fn(),
+}));
+
+import * as core from '@actions/core';
+import { fetchWithRetry, parseRetryAfter } from '../src/api/retry';
+
+const fastRetry = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+describe('fetchWithRetry', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the first successful response', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+    const response = await fetchWithRetry('https://api.example.com', {}, fastRetry, 'Test call');
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries 5xx responses and network errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('down', { status: 503 }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+    const response = await fetchWithRetry('https://api.example.com', {}, fastRetry, 'Test call');
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(core.debug).toHaveBeenCalledWith(expect.stringContaining('Test call: attempt 1/3 got HTTP 503'));
+    expect(core.debug).toHaveBeenCalledWith(expect.stringContaining('attempt 2/3 failed with network error'));
+  });
+
+  it('retries 429 responses using Retry-After', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+    const response = await fetchWithRetry('https://api.example.com', {}, fastRetry, 'Test call');
+
+    expect(response.status).toBe(200);
+    expect(core.debug).toHaveBeenCalledWith(expect.stringContaining('(Retry-After)'));
+  });
+
+  it('does not retry other client errors', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('bad', { status: 400 }));
+
+    const response = await fetchWithRetry('https://api.example.com', {}, fastRetry, 'Test call');
+
+    expect(response.status).toBe(400);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the last failed response once attempts run out', async () => {
+    fetchMock.mockImplementation(async () => new Response('down', { status: 502 }));
+
+    const response = await fetchWithRetry('https://api.example.com', {}, fastRetry, 'Test call');
+
+    expect(response.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws the last network error once attempts run out', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(fetchWithRetry('https://api.example.com', {}, fastRetry, 'Test call')).rejects.toThrow('fetch failed');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('only retries failures before the request reached the server when it is not idempotent', async () => {
+    const refused = new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } });
+    fetchMock
+      .mockRejectedValueOnce(refused)
+      .mockResolvedValueOnce(new Response('unavailable', { status: 503 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 201 }));
+
+    const response = await fetchWithRetry('https://api.example.com', {}, { ...fastRetry, idempotent: false }, 'Create');
+
+    expect(response.status).toBe(201);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry ambiguous failures of requests that are not idempotent', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('gateway timeout', { status: 504 }));
+
+    const response = await fetchWithRetry('https://api.example.com', {}, { ...fastRetry, idempotent: false }, 'Create');
+
+    expect(response.status).toBe(504);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed', { cause: { code: 'ECONNRESET' } }));
+
+    await expect(
+      fetchWithRetry('https://api.example.com', {}, { ...fastRetry, idempotent: false }, 'Create')
+    ).rejects.toThrow('fetch failed');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+  });
+
+  it('parses HTTP dates', () => {
+    const date = new Date(Date.now() + 10000).toUTCString();
+    const delay = parseRetryAfter(date);
+
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(10000);
+  });
+
+  it('returns null for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
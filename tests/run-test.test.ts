@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@actions/core', () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+import * as core from '@actions/core';
+import { cancelQATest } from '../src/api/run-test';
+
+const fastRetry = { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+describe('cancelQATest', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('cancels the job', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    await expect(cancelQATest('qa_live_key', 'https://api.example.com', 'job-1', fastRetry)).resolves.toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/api/jobs/job-1/cancel', expect.objectContaining({ method: 'POST' }));
+  });
+
+  it('reports that cancelling is unsupported when the API has no cancel endpoint', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('Not Found', { status: 404 }));
+
+    await expect(cancelQATest('qa_live_key', 'https://api.example.com', 'job-1', fastRetry)).resolves.toBe(false);
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('does not support cancelling jobs'));
+  });
+
+  it('throws other failures', async () => {
+    fetchMock.mockImplementation(async () => new Response('boom', { status: 500 }));
+
+    await expect(cancelQATest('qa_live_key', 'https://api.example.com', 'job-1', fastRetry)).rejects.toThrow(
+      'Failed to cancel job (500): boom'
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { parseSlashCommand } from '../src/slash-command';
+
+describe('parseSlashCommand', () => {
+  it('returns null for comments without a command', () => {
+    expect(parseSlashCommand('Looks good to me')).toBeNull();
+    expect(parseSlashCommand('Try running /runhuman test later')).toBeNull();
+  });
+
+  it('parses a test command with overrides', () => {
+    expect(parseSlashCommand('Please retest.\n/runhuman test url=https://staging.example.com/login duration=10')).toEqual({
+      name: 'test',
+      overrides: { testUrl: 'https://staging.example.com/login', targetDurationMinutes: 10 },
+    });
+  });
+
+  it('parses a test command without arguments', () => {
+    expect(parseSlashCommand('/runhuman test')).toEqual({ name: 'test', overrides: {} });
+  });
+
+  it('parses status and cancel', () => {
+    expect(parseSlashCommand('/runhuman status')).toEqual({ name: 'status' });
+    expect(parseSlashCommand('/runhuman cancel\r\n')).toEqual({ name: 'cancel' });
+  });
+
+  it('rejects invalid arguments', () => {
+    expect(parseSlashCommand('/runhuman test url=ftp://example.com')).toEqual({
+      name: 'invalid',
+      error: 'url must be a valid URL (http:// or https://)',
+    });
+    expect(parseSlashCommand('/runhuman test duration=90')).toMatchObject({ name: 'invalid' });
+    expect(parseSlashCommand('/runhuman test priority=high')).toMatchObject({ name: 'invalid' });
+    expect(parseSlashCommand('/runhuman status now')).toEqual({
+      name: 'invalid',
+      error: '/runhuman status takes no arguments',
+    });
+  });
+
+  it('rejects unknown and missing commands', () => {
+    expect(parseSlashCommand('/runhuman deploy')).toEqual({ name: 'invalid', error: 'Unknown command "deploy"' });
+    expect(parseSlashCommand('/runhuman')).toEqual({ name: 'invalid', error: 'Missing command' });
+  });
+});
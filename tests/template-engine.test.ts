@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, parseTemplate } from '../src/templates/template-engine';
+
+describe('renderTemplate', () => {
+  it('inserts nested values', () => {
+    expect(renderTemplate('Issue #{{issue.number}}: {{issue.title}}', { issue: { number: 42, title: 'Broken login' } })).toBe(
+      'Issue #42: Broken login'
+    );
+  });
+
+  it('renders missing values as empty and objects as JSON', () => {
+    expect(renderTemplate('[{{missing.value}}] {{data}}', { data: { a: 1 } })).toBe('[] {"a":1}');
+  });
+
+  it('renders if/else and unless sections', () => {
+    const template = '{{#if passed}}yes{{else}}no{{/if}} {{#unless passed}}reopen{{/unless}}';
+
+    expect(renderTemplate(template, { passed: true })).toBe('yes ');
+    expect(renderTemplate(template, { passed: false })).toBe('no reopen');
+  });
+
+  it('treats empty lists and objects as false', () => {
+    expect(renderTemplate('{{#if items}}some{{else}}none{{/if}}', { items: [] })).toBe('none');
+    expect(renderTemplate('{{#if data}}some{{else}}none{{/if}}', { data: {} })).toBe('none');
+  });
+
+  it('loops over lists with position helpers', () => {
+    const template = '{{#each shots}}{{@number}}:{{this}} {{/each}}';
+
+    expect(renderTemplate(template, { shots: ['a.png', 'b.png'] })).toBe('1:a.png 2:b.png ');
+  });
+
+  it('loops over objects with @key', () => {
+    const template = '{{#each data}}{{@key}}={{this}};{{/each}}';
+
+    expect(renderTemplate(template, { data: { resolved: true, count: 3 } })).toBe('resolved=true;count=3;');
+  });
+
+  it('renders the else branch of an empty loop', () => {
+    expect(renderTemplate('{{#each shots}}x{{else}}no screenshots{{/each}}', { shots: [] })).toBe('no screenshots');
+  });
+
+  it('looks up names in enclosing scopes from inside loops', () => {
+    const template = '{{#each fields}}{{name}}@{{issue.number}} {{/each}}';
+
+    expect(renderTemplate(template, { issue: { number: 7 }, fields: [{ name: 'a' }, { name: 'b' }] })).toBe('a@7 b@7 ');
+  });
+
+  it('drops lines that only hold block tags', () => {
+    const template = 'start\n{{#if show}}\nshown\n{{/if}}\nend\n';
+
+    expect(renderTemplate(template, { show: true })).toBe('start\nshown\nend\n');
+    expect(renderTemplate(template, { show: false })).toBe('start\nend\n');
+  });
+
+  it('ignores comments', () => {
+    expect(renderTemplate('a{{! internal note }}b', {})).toBe('ab');
+  });
+});
+
+describe('parseTemplate', () => {
+  it('rejects unknown blocks', () => {
+    expect(() => parseTemplate('{{#with issue}}{{/with}}')).toThrow('Unknown block');
+  });
+
+  it('rejects unclosed blocks', () => {
+    expect(() => parseTemplate('{{#if passed}}yes')).toThrow('"{{#if passed}}" is never closed');
+  });
+
+  it('rejects mismatched closing tags', () => {
+    expect(() => parseTemplate('{{#each shots}}{{/if}}')).toThrow('does not match');
+  });
+
+  it('rejects stray else', () => {
+    expect(() => parseTemplate('{{else}}')).toThrow('Unexpected "{{else}}"');
+  });
+});
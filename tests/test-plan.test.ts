@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { buildTestPlan, buildPlanPreviewComment, buildReviewComment } from '../src/templates/test-plan';
+import { parseMarker } from '../src/markers';
+import type { IssueTestResult } from '../src/types';
+
+const analysis = {
+  isTestable: true,
+  testUrl: 'https://staging.example.com/login',
+  testInstructions: 'Open the login page\nSubmit the form',
+  outputSchema: {
+    loginWorks: { type: 'boolean' as const, description: 'Whether | login\nsucceeds' },
+  },
+  confidence: 0.85,
+};
+
+describe('buildTestPlan', () => {
+  it('describes a planned test', () => {
+    const result: IssueTestResult = {
+      issueNumber: 4,
+      status: 'planned',
+      passed: false,
+      analysis,
+      plannedTest: { targetDurationMinutes: 10, testers: 2, estimatedCostUsd: 1.5 },
+    };
+
+    const plan = buildTestPlan(result);
+
+    expect(plan).toContain('**Decision:** Would be tested');
+    expect(plan).toContain('**Confidence:** 85%');
+    expect(plan).toContain('**Test URL:** https://staging.example.com/login');
+    expect(plan).toContain('**Target duration:** 10 min');
+    expect(plan).toContain('**Testers:** 2');
+    expect(plan).toContain('**Estimated cost:** $1.5000');
+    expect(plan).toContain('> Open the login page\n> Submit the form');
+    expect(plan).toContain('| loginWorks | boolean | Whether \\| login succeeds |');
+  });
+
+  it('explains why an analyzed issue would not be tested', () => {
+    const plan = buildTestPlan({
+      issueNumber: 5,
+      status: 'skipped',
+      passed: false,
+      analysis: { ...analysis, isTestable: false, reason: 'Backend only', testUrl: null },
+      skipReason: 'Not testable: Backend only',
+    });
+
+    expect(plan).toContain('**Decision:** Would not be tested - Not testable: Backend only');
+    expect(plan).toContain('**Testable:** No (Backend only)');
+    expect(plan).toContain('**Test URL:** N/A');
+    expect(plan).not.toContain('**Estimated cost:**');
+  });
+});
+
+describe('buildPlanPreviewComment', () => {
+  it('marks the comment as a preview for the commit', () => {
+    const comment = buildPlanPreviewComment(
+      { issueNumber: 4, status: 'planned', passed: false, analysis },
+      'abcdef1234567'
+    );
+
+    expect(parseMarker(comment, 'preview')).toEqual({ commitSha: 'abcdef1234567' });
+    expect(comment).toContain('QA Test Plan (Preview)');
+    expect(comment).toContain('Dry run for commit abcdef1');
+  });
+});
+
+describe('buildReviewComment', () => {
+  it('explains the threshold and how to approve the proposed test', () => {
+    const comment = buildReviewComment(
+      { ...analysis, confidence: 0.42 },
+      { targetDurationMinutes: 5, testers: 1, estimatedCostUsd: 0.5 },
+      0.7,
+      'qa-approved'
+    );
+
+    expect(parseMarker(comment, 'review')).toEqual({ confidence: 0.42 });
+    expect(comment).toContain('only 42% confident (`min-confidence` is 70%)');
+    expect(comment).toContain('add the `qa-approved` label');
+    expect(comment).toContain('**Estimated cost:** $0.5000');
+    expect(comment).toContain('> Open the login page');
+    expect(comment).not.toContain('**Decision:**');
+  });
+});